@@ -0,0 +1,309 @@
+/**
+ * @fileoverview API error catalogue and RFC 9457 problem details
+ * @description Lists every error code the API returns with its HTTP status
+ * and title, and builds the application/problem+json bodies of failed
+ * responses. Codes are stable: clients branch on them, so a code is never
+ * renamed, removed or moved to another status within an API version. New
+ * failures get new codes.
+ */
+
+import { type ApiVersion, versionedPath } from "./api-schema.ts";
+
+/** Media type of failed API responses (RFC 9457) */
+export const PROBLEM_MEDIA_TYPE = "application/problem+json";
+
+/**
+ * A catalogued error code
+ */
+export interface ApiErrorType {
+  /** HTTP status of responses with the code */
+  status: number;
+  /** Short summary, the same for every response with the code */
+  title: string;
+  /** When the code is returned, for the docs */
+  description: string;
+}
+
+/** Every error code the API returns, grouped by what went wrong */
+export const ERROR_CATALOGUE: Record<string, ApiErrorType> = {
+  // Request checks shared by the API routes
+  METHOD_NOT_ALLOWED: {
+    status: 405,
+    title: "Method not allowed",
+    description: "The route does not accept the method; see the Allow header",
+  },
+  API_KEY_MISSING: {
+    status: 401,
+    title: "API key required",
+    description: "The server requires an API key and X-API-Key is missing",
+  },
+  API_KEY_INVALID: {
+    status: 401,
+    title: "Invalid API key",
+    description: "X-API-Key does not match the server's API key",
+  },
+  RATE_LIMIT_EXCEEDED: {
+    status: 429,
+    title: "Rate limit exceeded",
+    description: "The client made too many requests in the last hour",
+  },
+  REQUEST_TOO_LARGE: {
+    status: 413,
+    title: "Request too large",
+    description: "The request body is larger than the route allows",
+  },
+  INVALID_CONTENT_TYPE: {
+    status: 400,
+    title: "Invalid content type",
+    description: "Content-Type is not the media type the route expects",
+  },
+  INVALID_JSON: {
+    status: 400,
+    title: "Invalid JSON",
+    description: "The request body is not valid JSON",
+  },
+  INVALID_BODY: {
+    status: 400,
+    title: "Invalid request body",
+    description: "The request body is not a JSON object",
+  },
+  MISSING_BODY: {
+    status: 400,
+    title: "Request body required",
+    description: "A streaming request has no body",
+  },
+  INTERNAL_ERROR: {
+    status: 500,
+    title: "Internal server error",
+    description: "The server failed unexpectedly; report the requestId",
+  },
+
+  // Request fields
+  INVALID_PAYLOAD: {
+    status: 400,
+    title: "Invalid payload",
+    description: "payload is missing, empty or too long, or sent with items",
+  },
+  INVALID_KEY: {
+    status: 400,
+    title: "Invalid key",
+    description: "key is missing, empty or too long",
+  },
+  MISSING_KEY: {
+    status: 400,
+    title: "Missing key",
+    description: "A streaming request has no X-Salty-Key header",
+  },
+  INVALID_CONTEXT: {
+    status: 400,
+    title: "Invalid context",
+    description: "context is not a string of at most 256 characters",
+  },
+  INVALID_PADDING: {
+    status: 400,
+    title: "Invalid padding",
+    description: "padding is not a supported padding mode",
+  },
+  INVALID_COMPRESSION: {
+    status: 400,
+    title: "Invalid compression",
+    description: "compression is not a supported compression mode",
+  },
+  INVALID_OUTPUT_FORMAT: {
+    status: 400,
+    title: "Invalid output format",
+    description: "output_format is not a supported encoding",
+  },
+  INVALID_DECODE_MODE: {
+    status: 400,
+    title: "Invalid decode mode",
+    description: "decode_mode is not a supported decode mode",
+  },
+  INVALID_RECIPIENTS: {
+    status: 400,
+    title: "Invalid recipients",
+    description: "recipients is not a list of keys, or is used in a batch",
+  },
+  INVALID_ITEMS: {
+    status: 400,
+    title: "Invalid items",
+    description:
+      "A list of batch or rekey items is empty, too long or malformed",
+  },
+  INVALID_UPGRADE: {
+    status: 400,
+    title: "Invalid upgrade",
+    description: "upgrade is not a boolean",
+  },
+  INVALID_PUBLIC_KEY: {
+    status: 400,
+    title: "Invalid public key",
+    description: "The signer's public key is not a valid key",
+  },
+  INVALID_SHARE_COUNT: {
+    status: 400,
+    title: "Invalid share count",
+    description: "shares is not an integer in the supported range",
+  },
+  INVALID_THRESHOLD: {
+    status: 400,
+    title: "Invalid threshold",
+    description: "threshold is out of range or larger than shares",
+  },
+  INVALID_COMMENT: {
+    status: 400,
+    title: "Invalid comment",
+    description: "comment is not a single line within the size limit",
+  },
+  INVALID_SHARES: {
+    status: 400,
+    title: "Invalid shares",
+    description: "The shares are malformed, too few, or do not belong together",
+  },
+  INVALID_ID: {
+    status: 400,
+    title: "Invalid ID",
+    description: "The tracking ID is not a dbFLEX record ID",
+  },
+  TRACKING_DISABLED: {
+    status: 404,
+    title: "Tracking not enabled",
+    description: "The server does not track link access",
+  },
+
+  // Cryptographic operations
+  ENCRYPT_FAILED: {
+    status: 400,
+    title: "Encryption failed",
+    description: "The payload could not be encrypted",
+  },
+  WRONG_KEY: {
+    status: 400,
+    title: "Wrong key",
+    description: "The key does not match the message",
+  },
+  CORRUPTED_DATA: {
+    status: 400,
+    title: "Corrupted data",
+    description:
+      "The message is damaged or truncated, or the context does not match",
+  },
+  ARMOR_CHECKSUM_MISMATCH: {
+    status: 400,
+    title: "Armor checksum mismatch",
+    description: "The armored message was changed in transit",
+  },
+  KDF_COST_EXCEEDED: {
+    status: 400,
+    title: "Key derivation too costly",
+    description:
+      "The message's KDF costs or recipient count exceed the server's limits",
+  },
+  INVALID_CHARACTER: {
+    status: 400,
+    title: "Invalid character",
+    description:
+      "The payload has a character basE91 does not use; details has its position",
+  },
+  MALFORMED_PAYLOAD: {
+    status: 400,
+    title: "Malformed payload",
+    description: "The payload is not a Salty message",
+  },
+  DECRYPT_FAILED: {
+    status: 400,
+    title: "Decryption failed",
+    description: "The message could not be decrypted for another reason",
+  },
+  INVALID_SIGNATURE: {
+    status: 400,
+    title: "Invalid signature",
+    description: "The signature does not match the message or the public key",
+  },
+};
+
+/**
+ * HTTP reason phrases (RFC 9110), the titles of problems without a
+ * catalogued code
+ */
+const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Content",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+/**
+ * An RFC 9457 problem details object, with the Salty error code and the
+ * request ID as extension members
+ */
+export interface ProblemDetails {
+  /** URI of the error code's entry in the API docs */
+  type: string;
+  /** Summary of the error code */
+  title: string;
+  /** HTTP status of the response */
+  status: number;
+  /** Explanation of this occurrence */
+  detail: string;
+  /** Stable error code from the catalogue */
+  code: string;
+  /** ID of the request in the server logs */
+  requestId: string;
+  /** Structured details, such as where an invalid character is */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Returns the problem type URI of an error code: its entry in the docs of
+ * an API version.
+ * @param code The error code.
+ * @param apiVersion The API version.
+ * @returns The URI, relative to the server.
+ */
+export function problemType(code: string, apiVersion: ApiVersion): string {
+  return `${versionedPath("/api/docs", apiVersion)}#error-${code}`;
+}
+
+/**
+ * Builds the problem details of a failed request.
+ * @param error The failure: its status, code, message and details.
+ * @param requestId The ID of the request in the server logs.
+ * @param apiVersion The API version, whose docs the type links to.
+ * @returns The problem details. Codes missing from the catalogue get the
+ * type about:blank and the status's reason phrase as title, as RFC 9457
+ * asks for problems without their own type.
+ */
+export function createProblemDetails(
+  error: {
+    message: string;
+    statusCode: number;
+    code: string;
+    details?: Record<string, unknown>;
+  },
+  requestId: string,
+  apiVersion: ApiVersion,
+): ProblemDetails {
+  const entry = ERROR_CATALOGUE[error.code];
+  const problem: ProblemDetails = {
+    type: entry ? problemType(error.code, apiVersion) : "about:blank",
+    title: entry?.title ?? STATUS_TITLES[error.statusCode] ?? "Error",
+    status: error.statusCode,
+    detail: error.message,
+    code: error.code,
+    requestId,
+  };
+  if (error.details) {
+    problem.details = error.details;
+  }
+  return problem;
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Tests for the API error catalogue and problem details
+ * @description Every error code a route documents is catalogued, and
+ * problem details carry the error's own status, code and the request ID
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createProblemDetails, ERROR_CATALOGUE } from "./api-errors.ts";
+import { API_ROUTES, routeErrorCodes } from "./api-schema.ts";
+
+Deno.test("API Errors - every route error code is catalogued", () => {
+  for (const route of API_ROUTES) {
+    for (const code of routeErrorCodes(route)) {
+      assertEquals(code in ERROR_CATALOGUE, true, `${route.path}: ${code}`);
+    }
+  }
+  for (const [code, entry] of Object.entries(ERROR_CATALOGUE)) {
+    assertEquals(/^[A-Z][A-Z0-9_]+$/.test(code), true, code);
+    assertEquals(entry.status >= 400 && entry.status < 600, true, code);
+  }
+});
+
+Deno.test("API Errors - statuses clients rely on", () => {
+  const statuses = Object.fromEntries(
+    Object.entries(ERROR_CATALOGUE).map(([code, entry]) => [
+      code,
+      entry.status,
+    ]),
+  );
+  assertEquals(statuses.API_KEY_MISSING, 401);
+  assertEquals(statuses.METHOD_NOT_ALLOWED, 405);
+  assertEquals(statuses.REQUEST_TOO_LARGE, 413);
+  assertEquals(statuses.RATE_LIMIT_EXCEEDED, 429);
+  assertEquals(statuses.INTERNAL_ERROR, 500);
+  assertEquals(statuses.WRONG_KEY, 400);
+});
+
+Deno.test("API Errors - problem details", () => {
+  assertEquals(
+    createProblemDetails(
+      {
+        message: "Rate limit exceeded",
+        statusCode: 429,
+        code: "RATE_LIMIT_EXCEEDED",
+      },
+      "req_1",
+      "v2",
+    ),
+    {
+      type: "/api/v2/docs#error-RATE_LIMIT_EXCEEDED",
+      title: "Rate limit exceeded",
+      status: 429,
+      detail: "Rate limit exceeded",
+      code: "RATE_LIMIT_EXCEEDED",
+      requestId: "req_1",
+    },
+  );
+
+  const details = { character: "é", line: 1, column: 3 };
+  assertEquals(
+    createProblemDetails(
+      {
+        message: "Decryption failed - invalid character",
+        statusCode: 400,
+        code: "INVALID_CHARACTER",
+        details,
+      },
+      "req_2",
+      "v1",
+    ).details,
+    details,
+  );
+});
+
+Deno.test("API Errors - uncatalogued codes have no problem type", () => {
+  const problem = createProblemDetails(
+    { message: "Slow down", statusCode: 429, code: "SLOW_DOWN" },
+    "req_3",
+    "v1",
+  );
+  assertEquals(problem.type, "about:blank");
+  assertEquals(problem.title, "Too Many Requests");
+  assertEquals(problem.status, 429);
+  assertEquals(problem.code, "SLOW_DOWN");
+});
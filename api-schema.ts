@@ -0,0 +1,938 @@
+/**
+ * @fileoverview API route and schema registry
+ * @description One description of every API route: its method, headers,
+ * request body schema, response and error codes. The server validates
+ * request bodies against it, and openapi.ts turns it into the OpenAPI
+ * document served at /api/openapi.json, so the two cannot drift apart.
+ */
+
+import {
+  SaltyCompression,
+  SaltyDecodeMode,
+  SaltyEncoding,
+  SaltyPadding,
+} from "./salty.ts";
+
+/** Maximum request body and payload size in bytes (1MB) */
+export const MAX_PAYLOAD_SIZE = 1024 * 1024;
+/** Maximum key size in characters */
+export const MAX_KEY_SIZE = 1024;
+/** Maximum context size in characters */
+export const MAX_CONTEXT_SIZE = 256;
+/**
+ * Maximum additional recipients per encrypt request; each one costs a full
+ * key derivation
+ */
+export const MAX_API_RECIPIENTS = 8;
+/**
+ * Maximum items per batch rekey request; each one costs at least one key
+ * derivation
+ */
+export const MAX_REKEY_ITEMS = 20;
+/**
+ * Maximum operations per batch encrypt or decrypt request; each one costs a
+ * key derivation unless its key repeats
+ */
+export const MAX_BATCH_ITEMS = 100;
+/** Maximum shares per split request */
+export const MAX_API_SHARES = 32;
+/**
+ * Maximum size of a payload split into shares in bytes (64KB); the response
+ * holds one share of the same size per share requested
+ */
+export const MAX_SHARED_PAYLOAD_SIZE = 64 * 1024;
+
+/**
+ * API versions, oldest first. v1 is the API as it was before versioning;
+ * v2 has the new response envelope and is where incompatible changes go.
+ */
+export const API_VERSIONS = ["v1", "v2"] as const;
+
+/** An API version */
+export type ApiVersion = typeof API_VERSIONS[number];
+
+/** Version served on the unversioned /api/* paths */
+export const UNVERSIONED_API_VERSION: ApiVersion = "v1";
+
+/** When the unversioned /api/* paths were deprecated (ISO date) */
+export const UNVERSIONED_DEPRECATION_DATE = "2026-10-18";
+
+/** When the unversioned /api/* paths may be removed (ISO date) */
+export const UNVERSIONED_SUNSET_DATE = "2027-04-30";
+
+/**
+ * The subset of JSON Schema (2020-12) used to describe request and response
+ * bodies. Unknown properties in objects are allowed.
+ */
+export interface Schema {
+  type?: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  description?: string;
+  /** Object properties */
+  properties?: Record<string, Schema>;
+  /** Names of properties that must be present */
+  required?: string[];
+  /** Schema of every array element */
+  items?: Schema;
+  /** Allowed values */
+  enum?: readonly (string | number | boolean)[];
+  /** Alternatives, of which the value must match at least one */
+  oneOf?: Schema[];
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression a string must match */
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  /** Format hint for clients, such as "date-time" */
+  format?: string;
+  /**
+   * Error code returned when this value, or anything inside it without a
+   * code of its own, is invalid
+   */
+  "x-error-code"?: string;
+  /**
+   * Message when this value is invalid, for constraints the generated
+   * message cannot put into words, such as a pattern
+   */
+  "x-error-message"?: string;
+}
+
+/**
+ * A request body that does not match its schema
+ */
+export interface SchemaError {
+  /** Where the invalid value is, such as ["operations", 2, "payload"] */
+  path: (string | number)[];
+  /** Error code of the nearest schema with one */
+  code: string;
+  /** Message for the client */
+  message: string;
+}
+
+/**
+ * A request header a route reads
+ */
+export interface ApiHeader {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+/**
+ * One API route
+ */
+export interface ApiRoute {
+  path: string;
+  method: "GET" | "POST";
+  /** Unique name for generated clients, such as "encrypt" */
+  operationId: string;
+  /** Group in the docs, such as "Encryption" */
+  tag: string;
+  summary: string;
+  description?: string;
+  /**
+   * Whether the route is rate limited and checks the X-API-Key header when
+   * API_KEY is set
+   */
+  auth: boolean;
+  /** Request headers the route reads */
+  headers?: ApiHeader[];
+  /** JSON request body, validated by the server */
+  body?: Schema;
+  /** Media type of a request body that is not JSON */
+  rawBody?: string;
+  /** Schema of `data` in a successful JSON response */
+  data?: Schema;
+  /** A response that is not the JSON envelope, such as a stream or HTML */
+  rawResponse?: { mediaType: string; schema?: Schema };
+  /** Error codes beyond those of the body schema and the common checks */
+  errors?: string[];
+}
+
+/** Error codes any API route can return */
+export const COMMON_ERROR_CODES = ["METHOD_NOT_ALLOWED", "INTERNAL_ERROR"];
+
+/** Error codes of rate-limited routes behind the API key */
+export const PROTECTED_ERROR_CODES = [
+  "RATE_LIMIT_EXCEEDED",
+  "API_KEY_MISSING",
+  "API_KEY_INVALID",
+];
+
+/** Error codes of routes with a JSON body */
+export const JSON_BODY_ERROR_CODES = [
+  "INVALID_CONTENT_TYPE",
+  "REQUEST_TOO_LARGE",
+  "INVALID_JSON",
+  "INVALID_BODY",
+];
+
+/** Error codes of failed decryption */
+const DECRYPT_ERROR_CODES = [
+  "WRONG_KEY",
+  "CORRUPTED_DATA",
+  "ARMOR_CHECKSUM_MISMATCH",
+  "KDF_COST_EXCEEDED",
+  "INVALID_CHARACTER",
+  "MALFORMED_PAYLOAD",
+  "DECRYPT_FAILED",
+];
+
+const PAYLOAD: Schema = {
+  type: "string",
+  minLength: 1,
+  maxLength: MAX_PAYLOAD_SIZE,
+  "x-error-code": "INVALID_PAYLOAD",
+};
+
+const KEY: Schema = {
+  type: "string",
+  description: "Passphrase the key is derived from",
+  minLength: 1,
+  maxLength: MAX_KEY_SIZE,
+  "x-error-code": "INVALID_KEY",
+};
+
+const CONTEXT: Schema = {
+  type: "string",
+  description:
+    "Bound to the ciphertext as additional authenticated data; decryption needs the same value",
+  maxLength: MAX_CONTEXT_SIZE,
+  "x-error-code": "INVALID_CONTEXT",
+};
+
+/** Fields of an encrypt or decrypt request, and of each batch operation */
+const CRYPTO_FIELDS: Record<string, Schema> = {
+  payload: {
+    ...PAYLOAD,
+    description: "Text to encrypt, or ciphertext to decrypt",
+  },
+  key: KEY,
+  context: CONTEXT,
+  padding: {
+    type: "string",
+    description: "Length-hiding padding when encrypting",
+    enum: Object.values(SaltyPadding),
+    "x-error-code": "INVALID_PADDING",
+  },
+  compression: {
+    type: "string",
+    description: "Compression before encrypting",
+    enum: Object.values(SaltyCompression),
+    "x-error-code": "INVALID_COMPRESSION",
+  },
+  output_format: {
+    type: "string",
+    description: "Text encoding of the ciphertext when encrypting",
+    enum: Object.values(SaltyEncoding),
+    "x-error-code": "INVALID_OUTPUT_FORMAT",
+  },
+  decode_mode: {
+    type: "string",
+    description: "Handling of stray characters in basE91 payloads",
+    enum: Object.values(SaltyDecodeMode),
+    "x-error-code": "INVALID_DECODE_MODE",
+  },
+};
+
+const ENCRYPT_REQUEST: Schema = {
+  type: "object",
+  required: ["payload", "key"],
+  properties: {
+    ...CRYPTO_FIELDS,
+    recipients: {
+      type: "array",
+      description: "Additional passphrases that can each decrypt the message",
+      minItems: 1,
+      maxItems: MAX_API_RECIPIENTS,
+      items: { type: "string", minLength: 1, maxLength: MAX_KEY_SIZE },
+      "x-error-code": "INVALID_RECIPIENTS",
+    },
+  },
+};
+
+const BATCH_REQUEST: Schema = {
+  type: "object",
+  required: ["operations"],
+  properties: {
+    operations: {
+      type: "array",
+      minItems: 1,
+      maxItems: MAX_BATCH_ITEMS,
+      items: {
+        type: "object",
+        required: ["id", "payload", "key"],
+        properties: {
+          id: {
+            type: "string",
+            description: "Caller-chosen id, repeated in the result",
+            "x-error-code": "INVALID_ITEMS",
+          },
+          ...CRYPTO_FIELDS,
+        },
+      },
+      "x-error-code": "INVALID_ITEMS",
+    },
+  },
+};
+
+/** One result of a batch: data on success, an error otherwise */
+const BATCH_RESULTS: Schema = {
+  type: "object",
+  required: ["results"],
+  properties: {
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "success"],
+        properties: {
+          id: { type: "string" },
+          success: { type: "boolean" },
+          data: { type: "string" },
+          error: { type: "string" },
+          code: { type: "string" },
+          details: { type: "object" },
+        },
+      },
+    },
+  },
+};
+
+const STREAM_KEY_HEADER: ApiHeader = {
+  name: "X-Salty-Key",
+  description: "Passphrase the key is derived from",
+  required: true,
+};
+
+/**
+ * Every API route. The server validates JSON bodies against `body`, and
+ * the OpenAPI document is generated from this list.
+ */
+export const API_ROUTES: ApiRoute[] = [
+  {
+    path: "/api/encrypt",
+    method: "POST",
+    operationId: "encrypt",
+    tag: "Encryption",
+    summary: "Encrypt a payload",
+    description:
+      "Encrypts with a key derived from the passphrase and a fresh salt.",
+    auth: true,
+    body: ENCRYPT_REQUEST,
+    data: { type: "string", description: "The ciphertext" },
+    errors: ["ENCRYPT_FAILED"],
+  },
+  {
+    path: "/api/decrypt",
+    method: "POST",
+    operationId: "decrypt",
+    tag: "Encryption",
+    summary: "Decrypt a payload",
+    auth: true,
+    body: ENCRYPT_REQUEST,
+    data: { type: "string", description: "The plaintext" },
+    errors: DECRYPT_ERROR_CODES,
+  },
+  {
+    path: "/api/batch/encrypt",
+    method: "POST",
+    operationId: "batchEncrypt",
+    tag: "Encryption",
+    summary: "Encrypt many payloads",
+    description:
+      "Each operation gets its own result. The batch counts as one request for rate limiting, plus one per full 64KB of body.",
+    auth: true,
+    body: BATCH_REQUEST,
+    data: BATCH_RESULTS,
+    errors: ["INVALID_RECIPIENTS", "ENCRYPT_FAILED"],
+  },
+  {
+    path: "/api/batch/decrypt",
+    method: "POST",
+    operationId: "batchDecrypt",
+    tag: "Encryption",
+    summary: "Decrypt many payloads",
+    description:
+      "Each operation gets its own result. The batch counts as one request for rate limiting, plus one per full 64KB of body.",
+    auth: true,
+    body: BATCH_REQUEST,
+    data: BATCH_RESULTS,
+    errors: ["INVALID_RECIPIENTS", ...DECRYPT_ERROR_CODES],
+  },
+  {
+    path: "/api/encrypt-stream",
+    method: "POST",
+    operationId: "encryptStream",
+    tag: "Streaming",
+    summary: "Encrypt a binary stream",
+    auth: true,
+    headers: [STREAM_KEY_HEADER],
+    rawBody: "application/octet-stream",
+    rawResponse: { mediaType: "application/octet-stream" },
+    errors: [
+      "INVALID_CONTENT_TYPE",
+      "REQUEST_TOO_LARGE",
+      "MISSING_KEY",
+      "INVALID_KEY",
+      "MISSING_BODY",
+    ],
+  },
+  {
+    path: "/api/decrypt-stream",
+    method: "POST",
+    operationId: "decryptStream",
+    tag: "Streaming",
+    summary: "Decrypt a binary stream",
+    auth: true,
+    headers: [STREAM_KEY_HEADER],
+    rawBody: "application/octet-stream",
+    rawResponse: { mediaType: "application/octet-stream" },
+    errors: [
+      "INVALID_CONTENT_TYPE",
+      "REQUEST_TOO_LARGE",
+      "MISSING_KEY",
+      "INVALID_KEY",
+      "MISSING_BODY",
+    ],
+  },
+  {
+    path: "/api/verify",
+    method: "POST",
+    operationId: "verify",
+    tag: "Signatures",
+    summary: "Verify a signed ciphertext",
+    auth: true,
+    body: {
+      type: "object",
+      required: ["payload"],
+      properties: {
+        payload: { ...PAYLOAD, description: "A SALTY SIGNED MESSAGE block" },
+        publicKey: {
+          type: "string",
+          description: "The signer's armored public key, if known",
+          "x-error-code": "INVALID_PUBLIC_KEY",
+        },
+      },
+    },
+    data: {
+      type: "object",
+      required: ["fingerprint", "algorithm", "payload"],
+      properties: {
+        fingerprint: { type: "string" },
+        algorithm: { type: "string" },
+        payload: { type: "string", description: "The signed ciphertext" },
+      },
+    },
+    errors: ["INVALID_PUBLIC_KEY", "INVALID_SIGNATURE"],
+  },
+  {
+    path: "/api/rekey",
+    method: "POST",
+    operationId: "rekey",
+    tag: "Encryption",
+    summary: "Re-encrypt payloads under a new key",
+    description: "Send either payload or items.",
+    auth: true,
+    body: {
+      type: "object",
+      required: ["key", "newKey"],
+      properties: {
+        payload: { ...PAYLOAD, description: "One ciphertext" },
+        items: {
+          type: "array",
+          minItems: 1,
+          maxItems: MAX_REKEY_ITEMS,
+          items: {
+            type: "object",
+            required: ["id", "payload"],
+            properties: {
+              id: { type: "string" },
+              payload: { type: "string", minLength: 1 },
+            },
+          },
+          "x-error-code": "INVALID_ITEMS",
+        },
+        key: { ...KEY, description: "The current passphrase" },
+        newKey: { ...KEY, description: "The new passphrase" },
+        context: CONTEXT,
+        upgrade: {
+          type: "boolean",
+          description: "Whether to use the server's current KDF settings",
+          "x-error-code": "INVALID_UPGRADE",
+        },
+      },
+    },
+    data: {
+      oneOf: [
+        { type: "string", description: "The re-encrypted payload" },
+        {
+          type: "object",
+          required: ["results"],
+          properties: {
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["id", "success"],
+                properties: {
+                  id: { type: "string" },
+                  success: { type: "boolean" },
+                  payload: { type: "string" },
+                  error: { type: "string" },
+                  code: { type: "string" },
+                  details: { type: "object" },
+                },
+              },
+            },
+          },
+        },
+      ],
+    },
+    errors: DECRYPT_ERROR_CODES,
+  },
+  {
+    path: "/api/shares/split",
+    method: "POST",
+    operationId: "splitShares",
+    tag: "Secret sharing",
+    summary: "Split a payload into Shamir shares",
+    auth: true,
+    body: {
+      type: "object",
+      required: ["payload", "shares", "threshold"],
+      properties: {
+        payload: {
+          ...PAYLOAD,
+          description: "Text to split, at most 64KB",
+          maxLength: MAX_SHARED_PAYLOAD_SIZE,
+        },
+        shares: {
+          type: "integer",
+          description: "How many shares to make",
+          minimum: 2,
+          maximum: MAX_API_SHARES,
+          "x-error-code": "INVALID_SHARE_COUNT",
+        },
+        threshold: {
+          type: "integer",
+          description: "How many shares recover the payload, at most shares",
+          minimum: 2,
+          maximum: MAX_API_SHARES,
+          "x-error-code": "INVALID_THRESHOLD",
+        },
+        comment: {
+          type: "string",
+          description: "Comment header for every share",
+          maxLength: MAX_CONTEXT_SIZE,
+          pattern: "^[^\\r\\n]*$",
+          "x-error-code": "INVALID_COMMENT",
+          "x-error-message":
+            `Comment must be a single line of at most ${MAX_CONTEXT_SIZE} characters`,
+        },
+      },
+    },
+    data: {
+      type: "object",
+      required: ["threshold", "shares"],
+      properties: {
+        threshold: { type: "integer" },
+        shares: {
+          type: "array",
+          items: { type: "string", description: "A SALTY SHARE block" },
+        },
+      },
+    },
+  },
+  {
+    path: "/api/shares/combine",
+    method: "POST",
+    operationId: "combineShares",
+    tag: "Secret sharing",
+    summary: "Recover a payload from Shamir shares",
+    auth: true,
+    body: {
+      type: "object",
+      required: ["shares"],
+      properties: {
+        shares: {
+          type: "array",
+          description: "Armored shares of one split, in any order",
+          minItems: 2,
+          maxItems: MAX_API_SHARES,
+          items: { type: "string", minLength: 1, maxLength: MAX_PAYLOAD_SIZE },
+          "x-error-code": "INVALID_SHARES",
+        },
+      },
+    },
+    data: { type: "string", description: "The recovered payload" },
+  },
+  {
+    path: "/api/track-access",
+    method: "POST",
+    operationId: "trackAccess",
+    tag: "Tracking",
+    summary: "Record that a shared link was opened",
+    description:
+      "Only available when dbFLEX tracking is enabled. Rate limited separately from the other endpoints.",
+    auth: false,
+    errors: ["RATE_LIMIT_EXCEEDED", "TRACKING_DISABLED"],
+    body: {
+      type: "object",
+      required: ["id"],
+      properties: {
+        id: {
+          type: "string",
+          description: "dbFLEX record id from the link",
+          "x-error-code": "INVALID_ID",
+        },
+        timestamp: { type: "string", format: "date-time" },
+        userAgent: { type: "string" },
+        referrer: { type: "string" },
+      },
+    },
+    rawResponse: {
+      mediaType: "application/json",
+      schema: {
+        type: "object",
+        required: ["success"],
+        properties: {
+          success: { type: "boolean" },
+          timestamp: { type: "string", format: "date-time" },
+        },
+      },
+    },
+  },
+  {
+    path: "/api/openapi.json",
+    method: "GET",
+    operationId: "getOpenApiDocument",
+    tag: "Documentation",
+    summary: "This OpenAPI document",
+    auth: false,
+    rawResponse: { mediaType: "application/json", schema: { type: "object" } },
+  },
+  {
+    path: "/api/docs",
+    method: "GET",
+    operationId: "getApiDocs",
+    tag: "Documentation",
+    summary: "Human-readable API documentation",
+    auth: false,
+    rawResponse: { mediaType: "text/html" },
+  },
+  {
+    path: "/health",
+    method: "GET",
+    operationId: "getHealth",
+    tag: "Operations",
+    summary: "Health, configuration and metrics",
+    auth: false,
+    rawResponse: {
+      mediaType: "application/json",
+      schema: {
+        type: "object",
+        required: ["status", "version"],
+        properties: {
+          status: { type: "string" },
+          version: { type: "string" },
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Finds the route for a path.
+ * @param path The request path.
+ * @returns The route, or undefined if there is none.
+ */
+export function findRoute(path: string): ApiRoute | undefined {
+  return API_ROUTES.find((route) => route.path === path);
+}
+
+/**
+ * A request path resolved to its route
+ */
+export interface ResolvedApiPath {
+  /** The registry path, such as "/api/encrypt" */
+  path: string;
+  /** The API version that handles the request */
+  version: ApiVersion;
+  /** Whether the request used a deprecated unversioned /api/* path */
+  deprecated: boolean;
+}
+
+/**
+ * Resolves a request path: "/api/v2/encrypt" is "/api/encrypt" in v2, and
+ * the unversioned "/api/encrypt" is a deprecated alias of v1. Paths outside
+ * the registry's /api/ routes, such as "/health", are returned unchanged.
+ * @param pathname The request path.
+ * @returns The registry path, version and whether it is deprecated.
+ */
+export function resolveApiPath(pathname: string): ResolvedApiPath {
+  const match = pathname.match(/^\/api\/(v\d+)(\/.+)$/);
+  const version = API_VERSIONS.find((candidate) => candidate === match?.[1]);
+  if (match && version && isVersionedPath(`/api${match[2]}`)) {
+    return { path: `/api${match[2]}`, version, deprecated: false };
+  }
+  return {
+    path: pathname,
+    version: UNVERSIONED_API_VERSION,
+    deprecated: isVersionedPath(pathname),
+  };
+}
+
+/**
+ * Gives the path of a route in an API version: "/api/encrypt" is
+ * "/api/v2/encrypt" in v2. Routes outside /api/ have no versions.
+ * @param path The registry path.
+ * @param version The API version.
+ * @returns The versioned path.
+ */
+export function versionedPath(path: string, version: ApiVersion): string {
+  return isVersionedPath(path)
+    ? path.replace(/^\/api\//, `/api/${version}/`)
+    : path;
+}
+
+/**
+ * Checks whether a registry route has versioned aliases.
+ */
+function isVersionedPath(path: string): boolean {
+  return path.startsWith("/api/") && findRoute(path) !== undefined;
+}
+
+/**
+ * Lists the error codes a route can return: the common ones, those of its
+ * body schema and its own.
+ * @param route The route.
+ * @returns The codes, without duplicates.
+ */
+export function routeErrorCodes(route: ApiRoute): string[] {
+  const codes = [...COMMON_ERROR_CODES];
+  if (route.auth) {
+    codes.push(...PROTECTED_ERROR_CODES);
+  }
+  if (route.body) {
+    codes.push(...JSON_BODY_ERROR_CODES);
+    const collect = (schema: Schema) => {
+      if (schema["x-error-code"]) {
+        codes.push(schema["x-error-code"]);
+      }
+      Object.values(schema.properties ?? {}).forEach(collect);
+      if (schema.items) {
+        collect(schema.items);
+      }
+    };
+    collect(route.body);
+  }
+  codes.push(...route.errors ?? []);
+  return [...new Set(codes)];
+}
+
+/**
+ * Turns a field name into words for messages: "output_format" and
+ * "outputFormat" become "Output format".
+ */
+function fieldLabel(name: string): string {
+  const words = name.replace(/_/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Describes a range for messages, such as "1 to 8" or "at most 256".
+ */
+function describeRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) {
+    return `${min} to ${max}`;
+  }
+  if (max !== undefined) {
+    return `at most ${max}`;
+  }
+  return min !== undefined ? `at least ${min}` : "";
+}
+
+/**
+ * Describes what a schema accepts, for messages and docs: "a string of at
+ * most 256 characters", "one of: none, block", "an array of 1 to 8 strings".
+ * @param schema The schema.
+ * @returns The description, starting with an article.
+ */
+export function describeSchema(schema: Schema): string {
+  if (schema.enum) {
+    return `one of: ${schema.enum.join(", ")}`;
+  }
+  switch (schema.type) {
+    case "string": {
+      const range = describeRange(schema.minLength, schema.maxLength);
+      return range ? `a string of ${range} characters` : "a string";
+    }
+    case "integer":
+    case "number": {
+      const noun = schema.type === "integer" ? "an integer" : "a number";
+      return schema.minimum !== undefined && schema.maximum !== undefined
+        ? `${noun} from ${schema.minimum} to ${schema.maximum}`
+        : noun;
+    }
+    case "boolean":
+      return "a boolean";
+    case "array": {
+      const range = describeRange(schema.minItems, schema.maxItems);
+      const noun = schema.items?.type ? `${schema.items.type}s` : "items";
+      return `an array of ${range ? `${range} ` : ""}${noun}`;
+    }
+    case "object":
+      return "a JSON object";
+    default:
+      return "valid";
+  }
+}
+
+/**
+ * Checks a value's own constraints, ignoring what is inside it.
+ */
+function matchesOwnConstraints(value: unknown, schema: Schema): boolean {
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return false;
+  }
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string" &&
+        value.length >= (schema.minLength ?? 0) &&
+        value.length <= (schema.maxLength ?? Infinity) &&
+        (!schema.pattern || new RegExp(schema.pattern).test(value));
+    case "integer":
+    case "number":
+      return typeof value === "number" &&
+        (schema.type === "number"
+          ? Number.isFinite(value)
+          : Number.isInteger(value)) &&
+        value >= (schema.minimum ?? -Infinity) &&
+        value <= (schema.maximum ?? Infinity);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value) && value.length >= (schema.minItems ?? 0) &&
+        value.length <= (schema.maxItems ?? Infinity);
+    case "object":
+      return typeof value === "object" && value !== null &&
+        !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Builds the message for an invalid value, such as "Context must be a
+ * string of at most 256 characters".
+ */
+function invalidMessage(schema: Schema, path: (string | number)[]): string {
+  if (schema["x-error-message"]) {
+    return schema["x-error-message"];
+  }
+  const label = path.length === 0
+    ? "Request body"
+    : fieldLabel(String(path[path.length - 1]));
+  return `${label} must be ${describeSchema(schema)}`;
+}
+
+/** An error found below a schema with an error code, not yet attributed */
+interface PendingError {
+  path: (string | number)[];
+  code?: string;
+  message?: string;
+}
+
+/**
+ * Validates a value and collects errors. Errors inside a schema without an
+ * error code are reported as an error of the nearest enclosing schema with
+ * one, so clients see "Recipients must be an array of 1 to 8 strings"
+ * rather than a message about one element.
+ */
+function collectErrors(
+  value: unknown,
+  schema: Schema,
+  path: (string | number)[],
+): PendingError[] {
+  let errors: PendingError[] = [];
+  if (!matchesOwnConstraints(value, schema)) {
+    errors.push({ path });
+  } else if (schema.oneOf) {
+    if (
+      !schema.oneOf.some((option) =>
+        collectErrors(value, option, path).length === 0
+      )
+    ) {
+      errors.push({ path });
+    }
+  } else if (schema.type === "object") {
+    const object = value as Record<string, unknown>;
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      if (object[name] === undefined) {
+        if (schema.required?.includes(name)) {
+          errors.push({
+            path: [...path, name],
+            code: property["x-error-code"],
+            message: `Missing ${name} field`,
+          });
+        }
+        continue;
+      }
+      errors.push(...collectErrors(object[name], property, [...path, name]));
+    }
+  } else if (schema.type === "array" && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(...collectErrors(item, schema.items!, [...path, index]));
+    });
+  }
+
+  const code = schema["x-error-code"];
+  if (code && errors.some((error) => !error.code)) {
+    // Attribute uncoded errors to this schema, once
+    errors = [
+      ...errors.filter((error) => error.code),
+      {
+        path,
+        code,
+        message: invalidMessage(schema, path),
+      },
+    ];
+  }
+  return errors;
+}
+
+/**
+ * Validates a request body against a schema.
+ * @param value The parsed JSON body.
+ * @param schema The route's body schema.
+ * @returns Every error found, in document order (none if valid). Errors
+ * without a code of their own get INVALID_BODY.
+ */
+export function validateSchema(value: unknown, schema: Schema): SchemaError[] {
+  return collectErrors(value, schema, []).map((error) => ({
+    path: error.path,
+    code: error.code ?? "INVALID_BODY",
+    message: error.message ??
+      invalidMessage(schemaAt(schema, error.path) ?? {}, error.path),
+  }));
+}
+
+/**
+ * Finds the schema of the value at a path.
+ */
+function schemaAt(
+  schema: Schema,
+  path: (string | number)[],
+): Schema | undefined {
+  let current: Schema | undefined = schema;
+  for (const segment of path) {
+    current = typeof segment === "number"
+      ? current?.items
+      : current?.properties?.[segment];
+  }
+  return current;
+}
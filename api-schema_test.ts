@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Tests for the API route and schema registry
+ * @description Request bodies are checked against route schemas with the
+ * codes and messages clients rely on, and every route is described
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  API_ROUTES,
+  findRoute,
+  MAX_API_RECIPIENTS,
+  MAX_CONTEXT_SIZE,
+  resolveApiPath,
+  routeErrorCodes,
+  validateSchema,
+  versionedPath,
+} from "./api-schema.ts";
+
+const encryptBody = findRoute("/api/encrypt")!.body!;
+
+Deno.test("API Schema - valid bodies pass", () => {
+  assertEquals(
+    validateSchema({ payload: "hi", key: "secret" }, encryptBody),
+    [],
+  );
+  assertEquals(
+    validateSchema({
+      payload: "hi",
+      key: "secret",
+      context: "invoice-42",
+      padding: "padme",
+      recipients: ["other"],
+      unknown: "ignored",
+    }, encryptBody),
+    [],
+  );
+  assertEquals(
+    validateSchema(
+      { shares: 5, threshold: 3, payload: "x" },
+      findRoute("/api/shares/split")!.body!,
+    ),
+    [],
+  );
+});
+
+Deno.test("API Schema - invalid fields get their own code", () => {
+  assertEquals(validateSchema({ key: "secret" }, encryptBody), [
+    {
+      path: ["payload"],
+      code: "INVALID_PAYLOAD",
+      message: "Missing payload field",
+    },
+  ]);
+  assertEquals(
+    validateSchema(
+      {
+        payload: "hi",
+        key: "secret",
+        context: "x".repeat(MAX_CONTEXT_SIZE + 1),
+      },
+      encryptBody,
+    ),
+    [{
+      path: ["context"],
+      code: "INVALID_CONTEXT",
+      message:
+        `Context must be a string of at most ${MAX_CONTEXT_SIZE} characters`,
+    }],
+  );
+  assertEquals(
+    validateSchema(
+      { payload: "hi", key: "secret", decode_mode: "loose" },
+      encryptBody,
+    )[0].message,
+    "Decode mode must be one of: skip, lenient, strict",
+  );
+  assertEquals(
+    validateSchema(
+      { shares: 2.5, threshold: 2, payload: "x" },
+      findRoute("/api/shares/split")!.body!,
+    )[0],
+    {
+      path: ["shares"],
+      code: "INVALID_SHARE_COUNT",
+      message: "Shares must be an integer from 2 to 32",
+    },
+  );
+  assertEquals(
+    validateSchema(
+      { shares: 3, threshold: 2, payload: "x", comment: "two\nlines" },
+      findRoute("/api/shares/split")!.body!,
+    )[0].message,
+    `Comment must be a single line of at most ${MAX_CONTEXT_SIZE} characters`,
+  );
+});
+
+Deno.test("API Schema - errors inside a field are reported on the field", () => {
+  // One bad recipient makes the whole list invalid, not the element
+  assertEquals(
+    validateSchema(
+      { payload: "hi", key: "secret", recipients: ["ok", 42] },
+      encryptBody,
+    ),
+    [{
+      path: ["recipients"],
+      code: "INVALID_RECIPIENTS",
+      message:
+        `Recipients must be an array of 1 to ${MAX_API_RECIPIENTS} strings`,
+    }],
+  );
+});
+
+Deno.test("API Schema - a body that is not an object", () => {
+  for (const body of [null, "text", [], 42]) {
+    assertEquals(validateSchema(body, encryptBody), [{
+      path: [],
+      code: "INVALID_BODY",
+      message: "Request body must be a JSON object",
+    }]);
+  }
+});
+
+Deno.test("API Schema - batch errors carry the operation index", () => {
+  const errors = validateSchema(
+    {
+      operations: [
+        { id: "a", payload: "hi", key: "secret" },
+        { id: "b", payload: "hi" },
+        { id: "c", payload: "hi", key: "secret", padding: "huge" },
+      ],
+    },
+    findRoute("/api/batch/encrypt")!.body!,
+  );
+
+  assertEquals(errors.map((error) => [error.path, error.code]), [
+    [["operations", 1, "key"], "INVALID_KEY"],
+    [["operations", 2, "padding"], "INVALID_PADDING"],
+  ]);
+});
+
+Deno.test("API Schema - every route is described", () => {
+  const ids = API_ROUTES.map((route) => route.operationId);
+  assertEquals(new Set(ids).size, ids.length);
+  for (const route of API_ROUTES) {
+    assertEquals(findRoute(route.path), route);
+  }
+  const codes = routeErrorCodes(findRoute("/api/decrypt")!);
+  for (const code of ["WRONG_KEY", "INVALID_CONTEXT", "RATE_LIMIT_EXCEEDED"]) {
+    assertEquals(codes.includes(code), true, code);
+  }
+  assertEquals(
+    routeErrorCodes(findRoute("/api/track-access")!).includes(
+      "API_KEY_MISSING",
+    ),
+    false,
+  );
+});
+
+Deno.test("API Schema - versioned paths resolve to registry routes", () => {
+  assertEquals(resolveApiPath("/api/v2/encrypt"), {
+    path: "/api/encrypt",
+    version: "v2",
+    deprecated: false,
+  });
+  assertEquals(resolveApiPath("/api/v1/shares/split"), {
+    path: "/api/shares/split",
+    version: "v1",
+    deprecated: false,
+  });
+  // The unversioned paths are deprecated aliases of v1
+  assertEquals(resolveApiPath("/api/encrypt"), {
+    path: "/api/encrypt",
+    version: "v1",
+    deprecated: true,
+  });
+  // Unknown versions and routes, and routes outside /api/, are left alone
+  for (const path of ["/api/v3/encrypt", "/api/v2/nothing", "/health", "/"]) {
+    assertEquals(resolveApiPath(path), {
+      path,
+      version: "v1",
+      deprecated: false,
+    });
+  }
+  assertEquals(resolveApiPath("/api/v2/health").path, "/api/v2/health");
+
+  assertEquals(versionedPath("/api/rekey", "v2"), "/api/v2/rekey");
+  assertEquals(versionedPath("/health", "v2"), "/health");
+});
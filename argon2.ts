@@ -0,0 +1,598 @@
+/**
+ * @fileoverview Pure TypeScript Argon2id (RFC 9106) and BLAKE2b (RFC 7693)
+ * @description Memory-hard key derivation without native or WASM dependencies,
+ * so the same code runs in the browser bundle and on the server
+ */
+
+/** Argon2 version 1.3 */
+const ARGON2_VERSION = 0x13;
+
+/** Argon2 type identifier for Argon2id */
+const ARGON2ID_TYPE = 2;
+
+/** Size of an Argon2 memory block in 32-bit words (1024 bytes) */
+const BLOCK_WORDS = 256;
+
+/** Number of synchronization points (slices) per pass */
+const SYNC_POINTS = 4;
+
+/** Number of 64-bit addresses produced per address block */
+const ADDRESSES_PER_BLOCK = 128;
+
+/**
+ * Argon2id cost parameters
+ */
+export interface Argon2Options {
+  /** Memory size in KiB (one block per KiB) */
+  memory: number;
+  /** Number of passes over memory (time cost) */
+  iterations: number;
+  /** Degree of parallelism (number of lanes) */
+  parallelism: number;
+  /** Output length in bytes */
+  hashLength: number;
+  /** Optional secret value (K in RFC 9106) */
+  secret?: Uint8Array;
+  /** Optional associated data (X in RFC 9106) */
+  associatedData?: Uint8Array;
+  /**
+   * Called after each memory slice with the fraction of the work done,
+   * from 0 to 1
+   */
+  onProgress?: (fraction: number) => void;
+}
+
+// BLAKE2b initialization vector as little-endian (low, high) 32-bit pairs
+const BLAKE2B_IV32 = new Uint32Array([
+  0xF3BCC908,
+  0x6A09E667,
+  0x84CAA73B,
+  0xBB67AE85,
+  0xFE94F82B,
+  0x3C6EF372,
+  0x5F1D36F1,
+  0xA54FF53A,
+  0xADE682D1,
+  0x510E527F,
+  0x2B3E6C1F,
+  0x9B05688C,
+  0xFB41BD6B,
+  0x1F83D9AB,
+  0x137E2179,
+  0x5BE0CD19,
+]);
+
+// BLAKE2b message schedule; rounds 10 and 11 repeat rounds 0 and 1
+const SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+];
+
+/**
+ * Adds the 64-bit word at v[b] (plus an optional 64-bit word m[k]) into v[a].
+ * Words are stored as (low, high) pairs at indices 2i and 2i+1.
+ */
+function add64(
+  v: Uint32Array,
+  a: number,
+  b: number,
+  m?: Uint32Array,
+  k = 0,
+): void {
+  let lo = v[2 * a] + v[2 * b];
+  let hi = v[2 * a + 1] + v[2 * b + 1] + (lo >= 0x100000000 ? 1 : 0);
+  if (m) {
+    lo = (lo >>> 0) + m[2 * k];
+    hi += m[2 * k + 1] + (lo >= 0x100000000 ? 1 : 0);
+  }
+  v[2 * a] = lo;
+  v[2 * a + 1] = hi;
+}
+
+/**
+ * Sets v[d] = rotr64(v[d] ^ v[a], n) for n in {16, 24, 32, 63}.
+ */
+function xorRotr64(v: Uint32Array, d: number, a: number, n: number): void {
+  const lo = v[2 * d] ^ v[2 * a];
+  const hi = v[2 * d + 1] ^ v[2 * a + 1];
+  if (n === 32) {
+    v[2 * d] = hi;
+    v[2 * d + 1] = lo;
+  } else if (n === 63) {
+    v[2 * d] = (lo << 1) | (hi >>> 31);
+    v[2 * d + 1] = (hi << 1) | (lo >>> 31);
+  } else {
+    v[2 * d] = (lo >>> n) | (hi << (32 - n));
+    v[2 * d + 1] = (hi >>> n) | (lo << (32 - n));
+  }
+}
+
+/**
+ * Returns the high 32 bits of the 64-bit product of two unsigned 32-bit values.
+ */
+function mulHi32(a: number, b: number): number {
+  const al = a & 0xFFFF;
+  const ah = a >>> 16;
+  const bl = b & 0xFFFF;
+  const bh = b >>> 16;
+  const lh = al * bh;
+  const hl = ah * bl;
+  const mid = ((al * bl) >>> 16) + (lh & 0xFFFF) + (hl & 0xFFFF);
+  return (ah * bh + (lh >>> 16) + (hl >>> 16) + (mid >>> 16)) >>> 0;
+}
+
+/**
+ * BLAKE2b mixing function G with message words.
+ */
+function blake2bG(
+  v: Uint32Array,
+  m: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  x: number,
+  y: number,
+): void {
+  add64(v, a, b, m, x);
+  xorRotr64(v, d, a, 32);
+  add64(v, c, d);
+  xorRotr64(v, b, c, 24);
+  add64(v, a, b, m, y);
+  xorRotr64(v, d, a, 16);
+  add64(v, c, d);
+  xorRotr64(v, b, c, 63);
+}
+
+/**
+ * BLAKE2b compression function F.
+ */
+function blake2bCompress(
+  h: Uint32Array,
+  block: Uint8Array,
+  counter: number,
+  last: boolean,
+): void {
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  const view = new DataView(block.buffer, block.byteOffset, 128);
+  for (let i = 0; i < 32; i++) {
+    m[i] = view.getUint32(i * 4, true);
+  }
+
+  v.set(h, 0);
+  v.set(BLAKE2B_IV32, 16);
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+
+  for (let round = 0; round < 12; round++) {
+    const s = SIGMA[round];
+    blake2bG(v, m, 0, 4, 8, 12, s[0], s[1]);
+    blake2bG(v, m, 1, 5, 9, 13, s[2], s[3]);
+    blake2bG(v, m, 2, 6, 10, 14, s[4], s[5]);
+    blake2bG(v, m, 3, 7, 11, 15, s[6], s[7]);
+    blake2bG(v, m, 0, 5, 10, 15, s[8], s[9]);
+    blake2bG(v, m, 1, 6, 11, 12, s[10], s[11]);
+    blake2bG(v, m, 2, 7, 8, 13, s[12], s[13]);
+    blake2bG(v, m, 3, 4, 9, 14, s[14], s[15]);
+  }
+
+  for (let i = 0; i < 16; i++) {
+    h[i] ^= v[i] ^ v[i + 16];
+  }
+}
+
+/**
+ * Computes an unkeyed BLAKE2b digest.
+ * @param input The message bytes.
+ * @param outputLength Digest length in bytes (1 to 64).
+ * @returns The digest.
+ */
+export function blake2b(
+  input: Uint8Array,
+  outputLength = 64,
+): Uint8Array<ArrayBuffer> {
+  if (outputLength < 1 || outputLength > 64) {
+    throw new Error("BLAKE2b output length must be between 1 and 64 bytes");
+  }
+
+  const h = new Uint32Array(BLAKE2B_IV32);
+  h[0] ^= 0x01010000 ^ outputLength;
+
+  const block = new Uint8Array(128);
+  let offset = 0;
+  // Process all full blocks except the last one
+  while (input.length - offset > 128) {
+    block.set(input.subarray(offset, offset + 128));
+    offset += 128;
+    blake2bCompress(h, block, offset, false);
+  }
+  block.fill(0);
+  block.set(input.subarray(offset));
+  blake2bCompress(h, block, input.length, true);
+
+  const out = new Uint8Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    out[i] = h[i >> 2] >>> (8 * (i & 3));
+  }
+  return out;
+}
+
+/**
+ * Concatenates byte arrays.
+ */
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Encodes a number as a 32-bit little-endian integer.
+ */
+function le32(n: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n, true);
+  return out;
+}
+
+/**
+ * Variable-length hash function H' from RFC 9106 section 3.3.
+ */
+function blake2bLong(
+  input: Uint8Array,
+  outputLength: number,
+): Uint8Array<ArrayBuffer> {
+  const prefixed = concatBytes(le32(outputLength), input);
+  if (outputLength <= 64) {
+    return blake2b(prefixed, outputLength);
+  }
+
+  const out = new Uint8Array(outputLength);
+  const r = Math.ceil(outputLength / 32) - 2;
+  let v = blake2b(prefixed, 64);
+  out.set(v.subarray(0, 32), 0);
+  for (let i = 1; i < r; i++) {
+    v = blake2b(v, 64);
+    out.set(v.subarray(0, 32), i * 32);
+  }
+  out.set(blake2b(v, outputLength - 32 * r), r * 32);
+  return out;
+}
+
+/**
+ * Argon2 permutation primitive GB on 64-bit words, using the BlaMka
+ * multiplication a + b + 2 * lo(a) * lo(b).
+ */
+function fBlaMka(v: Uint32Array, a: number, b: number): void {
+  const al = v[2 * a];
+  const bl = v[2 * b];
+  let plo = Math.imul(al, bl) >>> 0;
+  let phi = mulHi32(al, bl);
+  phi = ((phi << 1) | (plo >>> 31)) >>> 0;
+  plo = (plo << 1) >>> 0;
+
+  let lo = al + bl;
+  let hi = v[2 * a + 1] + v[2 * b + 1] + (lo >= 0x100000000 ? 1 : 0);
+  lo = (lo >>> 0) + plo;
+  hi += phi + (lo >= 0x100000000 ? 1 : 0);
+  v[2 * a] = lo;
+  v[2 * a + 1] = hi;
+}
+
+/**
+ * Argon2 GB function on four 64-bit words of a block.
+ */
+function argon2G(
+  v: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+): void {
+  fBlaMka(v, a, b);
+  xorRotr64(v, d, a, 32);
+  fBlaMka(v, c, d);
+  xorRotr64(v, b, c, 24);
+  fBlaMka(v, a, b);
+  xorRotr64(v, d, a, 16);
+  fBlaMka(v, c, d);
+  xorRotr64(v, b, c, 63);
+}
+
+/**
+ * Argon2 permutation P on sixteen 64-bit words given by index.
+ */
+function argon2Round(v: Uint32Array, w: number[]): void {
+  argon2G(v, w[0], w[4], w[8], w[12]);
+  argon2G(v, w[1], w[5], w[9], w[13]);
+  argon2G(v, w[2], w[6], w[10], w[14]);
+  argon2G(v, w[3], w[7], w[11], w[15]);
+  argon2G(v, w[0], w[5], w[10], w[15]);
+  argon2G(v, w[1], w[6], w[11], w[12]);
+  argon2G(v, w[2], w[7], w[8], w[13]);
+  argon2G(v, w[3], w[4], w[9], w[14]);
+}
+
+// Word indices for the row and column applications of P
+const ROW_INDICES: number[][] = [];
+const COLUMN_INDICES: number[][] = [];
+for (let i = 0; i < 8; i++) {
+  const row: number[] = [];
+  const column: number[] = [];
+  for (let j = 0; j < 16; j++) {
+    row.push(16 * i + j);
+    column.push(2 * i + (j & 1) + 16 * (j >> 1));
+  }
+  ROW_INDICES.push(row);
+  COLUMN_INDICES.push(column);
+}
+
+/**
+ * Argon2 compression function G: next = P(prev ^ ref) ^ (prev ^ ref),
+ * additionally XORed into the existing next block when withXor is set.
+ */
+function fillBlock(
+  memory: Uint32Array,
+  prev: number,
+  ref: number,
+  next: number,
+  withXor: boolean,
+  r: Uint32Array,
+  tmp: Uint32Array,
+): void {
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    r[i] = memory[prev + i] ^ memory[ref + i];
+  }
+  tmp.set(r);
+  if (withXor) {
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      tmp[i] ^= memory[next + i];
+    }
+  }
+
+  for (let i = 0; i < 8; i++) {
+    argon2Round(r, ROW_INDICES[i]);
+  }
+  for (let i = 0; i < 8; i++) {
+    argon2Round(r, COLUMN_INDICES[i]);
+  }
+
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    memory[next + i] = tmp[i] ^ r[i];
+  }
+}
+
+/**
+ * Validates Argon2id cost parameters.
+ * @throws Error if a parameter is out of range
+ */
+function validateOptions(options: Argon2Options): void {
+  const { memory, iterations, parallelism, hashLength } = options;
+  if (!Number.isInteger(parallelism) || parallelism < 1 || parallelism > 255) {
+    throw new Error("Argon2 parallelism must be between 1 and 255");
+  }
+  if (!Number.isInteger(memory) || memory < 8 * parallelism) {
+    throw new Error("Argon2 memory must be at least 8 KiB per lane");
+  }
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error("Argon2 iterations must be at least 1");
+  }
+  if (!Number.isInteger(hashLength) || hashLength < 4) {
+    throw new Error("Argon2 hash length must be at least 4 bytes");
+  }
+}
+
+/**
+ * Computes an Argon2id (version 1.3) hash.
+ * @param password The password bytes.
+ * @param salt The salt bytes (at least 8 bytes recommended).
+ * @param options Cost parameters and output length.
+ * @returns The derived tag.
+ */
+export function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  options: Argon2Options,
+): Uint8Array<ArrayBuffer> {
+  validateOptions(options);
+  const { iterations, parallelism, hashLength } = options;
+  const secret = options.secret ?? new Uint8Array(0);
+  const associatedData = options.associatedData ?? new Uint8Array(0);
+
+  // Round memory down to a multiple of 4 * parallelism blocks
+  const segmentLength = Math.floor(
+    options.memory / (SYNC_POINTS * parallelism),
+  );
+  const laneLength = segmentLength * SYNC_POINTS;
+  const blockCount = laneLength * parallelism;
+
+  // H0 = H^(64)(p, T, m, t, v, y, |P|, P, |S|, S, |K|, K, |X|, X)
+  const h0 = blake2b(
+    concatBytes(
+      le32(parallelism),
+      le32(hashLength),
+      le32(options.memory),
+      le32(iterations),
+      le32(ARGON2_VERSION),
+      le32(ARGON2ID_TYPE),
+      le32(password.length),
+      password,
+      le32(salt.length),
+      salt,
+      le32(secret.length),
+      secret,
+      le32(associatedData.length),
+      associatedData,
+    ),
+    64,
+  );
+
+  const memory = new Uint32Array(blockCount * BLOCK_WORDS);
+  const blockBytes = new Uint8Array(1024);
+  const blockView = new DataView(blockBytes.buffer);
+
+  // First two blocks of every lane come straight from H0
+  for (let lane = 0; lane < parallelism; lane++) {
+    for (let column = 0; column < 2; column++) {
+      const bytes = blake2bLong(
+        concatBytes(h0, le32(column), le32(lane)),
+        1024,
+      );
+      const view = new DataView(bytes.buffer);
+      const base = (lane * laneLength + column) * BLOCK_WORDS;
+      for (let i = 0; i < BLOCK_WORDS; i++) {
+        memory[base + i] = view.getUint32(i * 4, true);
+      }
+    }
+  }
+
+  const r = new Uint32Array(BLOCK_WORDS);
+  const tmp = new Uint32Array(BLOCK_WORDS);
+  // Scratch area for address generation: zero block, input block, address block
+  const scratch = new Uint32Array(3 * BLOCK_WORDS);
+  const ZERO = 0;
+  const INPUT = BLOCK_WORDS;
+  const ADDRESS = 2 * BLOCK_WORDS;
+
+  const nextAddresses = () => {
+    // Increment the 64-bit counter in word 6 of the input block
+    scratch[INPUT + 12] += 1;
+    fillBlock(scratch, ZERO, INPUT, ADDRESS, false, r, tmp);
+    fillBlock(scratch, ZERO, ADDRESS, ADDRESS, false, r, tmp);
+  };
+
+  for (let pass = 0; pass < iterations; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      for (let lane = 0; lane < parallelism; lane++) {
+        // Argon2id uses data-independent addressing for the first half
+        // of the first pass
+        const independent = pass === 0 && slice < SYNC_POINTS / 2;
+        if (independent) {
+          scratch.fill(0);
+          scratch[INPUT] = pass;
+          scratch[INPUT + 2] = lane;
+          scratch[INPUT + 4] = slice;
+          scratch[INPUT + 6] = blockCount;
+          scratch[INPUT + 8] = iterations;
+          scratch[INPUT + 10] = ARGON2ID_TYPE;
+        }
+
+        let startIndex = 0;
+        if (pass === 0 && slice === 0) {
+          startIndex = 2;
+          if (independent) {
+            nextAddresses();
+          }
+        }
+
+        let current = lane * laneLength + slice * segmentLength + startIndex;
+        let previous = current % laneLength === 0
+          ? current + laneLength - 1
+          : current - 1;
+
+        for (
+          let index = startIndex;
+          index < segmentLength;
+          index++, current++, previous++
+        ) {
+          if (current % laneLength === 1) {
+            previous = current - 1;
+          }
+
+          let j1: number;
+          let j2: number;
+          if (independent) {
+            if (index % ADDRESSES_PER_BLOCK === 0) {
+              nextAddresses();
+            }
+            const k = ADDRESS + 2 * (index % ADDRESSES_PER_BLOCK);
+            j1 = scratch[k];
+            j2 = scratch[k + 1];
+          } else {
+            j1 = memory[previous * BLOCK_WORDS];
+            j2 = memory[previous * BLOCK_WORDS + 1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % parallelism;
+          const sameLane = refLane === lane;
+
+          // Size of the window of blocks that may be referenced
+          let areaSize: number;
+          if (pass === 0) {
+            if (slice === 0) {
+              areaSize = index - 1;
+            } else if (sameLane) {
+              areaSize = slice * segmentLength + index - 1;
+            } else {
+              areaSize = slice * segmentLength + (index === 0 ? -1 : 0);
+            }
+          } else if (sameLane) {
+            areaSize = laneLength - segmentLength + index - 1;
+          } else {
+            areaSize = laneLength - segmentLength + (index === 0 ? -1 : 0);
+          }
+
+          // Map J1 onto the window with a quadratic bias towards recent blocks
+          const x = mulHi32(j1, j1);
+          const relative = areaSize - 1 - mulHi32(areaSize, x);
+          const start = pass !== 0 && slice !== SYNC_POINTS - 1
+            ? (slice + 1) * segmentLength
+            : 0;
+          const refIndex = (start + relative) % laneLength;
+
+          fillBlock(
+            memory,
+            previous * BLOCK_WORDS,
+            (refLane * laneLength + refIndex) * BLOCK_WORDS,
+            current * BLOCK_WORDS,
+            pass !== 0,
+            r,
+            tmp,
+          );
+        }
+      }
+      options.onProgress?.(
+        (pass * SYNC_POINTS + slice + 1) / (iterations * SYNC_POINTS),
+      );
+    }
+  }
+
+  // XOR the last block of every lane and hash it to the requested length
+  const finalBlock = memory.slice(
+    (laneLength - 1) * BLOCK_WORDS,
+    laneLength * BLOCK_WORDS,
+  );
+  for (let lane = 1; lane < parallelism; lane++) {
+    const base = (lane * laneLength + laneLength - 1) * BLOCK_WORDS;
+    for (let i = 0; i < BLOCK_WORDS; i++) {
+      finalBlock[i] ^= memory[base + i];
+    }
+  }
+  for (let i = 0; i < BLOCK_WORDS; i++) {
+    blockView.setUint32(i * 4, finalBlock[i], true);
+  }
+
+  // Wipe working memory before returning
+  memory.fill(0);
+
+  return blake2bLong(blockBytes, hashLength);
+}
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Tests for the pure TypeScript Argon2id and BLAKE2b implementation
+ * @description Known-answer tests from RFC 7693 and RFC 9106
+ */
+
+import {
+  assertEquals,
+  assertNotEquals,
+  assertThrows,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { argon2id, blake2b } from "./argon2.ts";
+
+/** Formats bytes as lowercase hex */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+Deno.test("BLAKE2b - RFC 7693 test vector", () => {
+  assertEquals(
+    toHex(blake2b(new TextEncoder().encode("abc"))),
+    "ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1" +
+      "7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923",
+  );
+});
+
+Deno.test("BLAKE2b - output length bounds", () => {
+  assertEquals(blake2b(new Uint8Array(0), 32).length, 32);
+  assertThrows(() => blake2b(new Uint8Array(0), 0));
+  assertThrows(() => blake2b(new Uint8Array(0), 65));
+});
+
+Deno.test("Argon2id - RFC 9106 test vector", () => {
+  const tag = argon2id(
+    new Uint8Array(32).fill(0x01),
+    new Uint8Array(16).fill(0x02),
+    {
+      memory: 32,
+      iterations: 3,
+      parallelism: 4,
+      hashLength: 32,
+      secret: new Uint8Array(8).fill(0x03),
+      associatedData: new Uint8Array(12).fill(0x04),
+    },
+  );
+
+  assertEquals(
+    toHex(tag),
+    "0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659",
+  );
+});
+
+Deno.test("Argon2id - parameters", async (t) => {
+  const password = new TextEncoder().encode("password");
+  const salt = new TextEncoder().encode("somesalt");
+  const options = { memory: 64, iterations: 2, parallelism: 1, hashLength: 32 };
+
+  await t.step("should be deterministic", () => {
+    assertEquals(
+      argon2id(password, salt, options),
+      argon2id(password, salt, options),
+    );
+  });
+
+  await t.step("should depend on every cost parameter", () => {
+    const base = toHex(argon2id(password, salt, options));
+    assertNotEquals(
+      toHex(argon2id(password, salt, { ...options, memory: 128 })),
+      base,
+    );
+    assertNotEquals(
+      toHex(argon2id(password, salt, { ...options, iterations: 3 })),
+      base,
+    );
+    assertNotEquals(
+      toHex(argon2id(password, salt, { ...options, parallelism: 2 })),
+      base,
+    );
+  });
+
+  await t.step("should produce long outputs", () => {
+    assertEquals(
+      argon2id(password, salt, { ...options, hashLength: 100 }).length,
+      100,
+    );
+  });
+
+  await t.step("should report progress after each slice", () => {
+    const fractions: number[] = [];
+    const tag = argon2id(password, salt, {
+      ...options,
+      onProgress: (fraction) => fractions.push(fraction),
+    });
+
+    assertEquals(fractions, [1, 2, 3, 4, 5, 6, 7, 8].map((n) => n / 8));
+    assertEquals(tag, argon2id(password, salt, options));
+  });
+
+  await t.step("should reject invalid parameters", () => {
+    assertThrows(() => argon2id(password, salt, { ...options, memory: 4 }));
+    assertThrows(() => argon2id(password, salt, { ...options, iterations: 0 }));
+    assertThrows(() =>
+      argon2id(password, salt, { ...options, parallelism: 0 })
+    );
+    assertThrows(() => argon2id(password, salt, { ...options, hashLength: 2 }));
+  });
+});
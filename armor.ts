@@ -0,0 +1,284 @@
+/**
+ * @fileoverview ASCII armor for Salty messages and keys
+ * @description Parses and formats "-----BEGIN SALTY MESSAGE-----" blocks
+ * with optional headers, fixed-width line wrapping and an OpenPGP-style
+ * CRC-24 checksum line (RFC 4880, section 6.1)
+ */
+
+/** Default body line width, as in OpenPGP armor */
+export const ARMOR_LINE_WIDTH = 64;
+
+/** A BEGIN or END line; group 1 is BEGIN or END, group 2 the label */
+const BOUNDARY_LINE = /^-----(BEGIN|END) ([A-Z0-9 ]+)-----$/;
+
+/** A header line; group 1 is the name, group 2 the value */
+const HEADER_LINE = /^([A-Za-z][A-Za-z-]*): (.*)$/;
+
+/** A checksum line: "=" and the base64 CRC-24 */
+const CHECKSUM_LINE = /^=[A-Za-z0-9+/]{4}$/;
+
+/** Labels are upper-case words, such as "SALTY MESSAGE" */
+const LABEL = /^[A-Z0-9]+(?: [A-Z0-9]+)*$/;
+
+/** CRC-24 initial value (RFC 4880) */
+const CRC24_INIT = 0xB704CE;
+
+/** CRC-24 generator polynomial (RFC 4880) */
+const CRC24_POLY = 0x1864CFB;
+
+/**
+ * Headers understood in armored blocks. Other headers are ignored when
+ * parsing.
+ */
+export interface ArmorHeaders {
+  /** Format version of the armored data */
+  version?: string;
+  /** Text encoding of the body, such as "base64url" */
+  encoding?: string;
+  /** Free text for people, such as who the message is for */
+  comment?: string;
+  /** Index of a secret share, such as "2" */
+  share?: string;
+  /** How many secret shares recover the secret, such as "3" */
+  threshold?: string;
+}
+
+/**
+ * Options for formatArmor
+ */
+export interface ArmorOptions {
+  /**
+   * Headers to write, in the order Version, Encoding, Comment, Share,
+   * Threshold
+   */
+  headers?: ArmorHeaders;
+  /** Body line width (defaults to 64; 0 keeps the body on one line) */
+  lineWidth?: number;
+  /** Whether to write a CRC-24 checksum line (defaults to true) */
+  checksum?: boolean;
+}
+
+/**
+ * A parsed armored block
+ */
+export interface Armor {
+  /** The label, such as "SALTY MESSAGE" */
+  label: string;
+  /** The known headers that were present */
+  headers: ArmorHeaders;
+  /** The body with whitespace removed */
+  body: string;
+  /**
+   * True if a checksum line matched the body, false if it did not, and
+   * undefined if there was none
+   */
+  checksumValid?: boolean;
+}
+
+/** Header names as written, keyed by ArmorHeaders property */
+const HEADER_NAMES: Record<keyof ArmorHeaders, string> = {
+  version: "Version",
+  encoding: "Encoding",
+  comment: "Comment",
+  share: "Share",
+  threshold: "Threshold",
+};
+
+/**
+ * Computes the OpenPGP CRC-24 of some bytes.
+ * @param data The bytes to checksum.
+ * @returns The 24-bit CRC.
+ */
+export function crc24(data: Uint8Array): number {
+  let crc = CRC24_INIT;
+  for (const byte of data) {
+    crc ^= byte << 16;
+    for (let i = 0; i < 8; i++) {
+      crc <<= 1;
+      if (crc & 0x1000000) {
+        crc ^= CRC24_POLY;
+      }
+    }
+  }
+  return crc & 0xFFFFFF;
+}
+
+/**
+ * Formats the checksum line for a body: "=" and the base64 of its CRC-24.
+ * The CRC covers the body text without whitespace, so it works the same
+ * for every encoding.
+ */
+function checksumLine(body: string): string {
+  const crc = crc24(new TextEncoder().encode(body));
+  return "=" +
+    btoa(String.fromCharCode(crc >> 16, (crc >> 8) & 0xFF, crc & 0xFF));
+}
+
+/**
+ * Wraps text into lines of a fixed width.
+ */
+function wrapLines(text: string, width: number): string[] {
+  if (width <= 0 || text.length <= width) {
+    return [text];
+  }
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += width) {
+    lines.push(text.slice(i, i + width));
+  }
+  return lines;
+}
+
+/**
+ * Formats an armored block.
+ * @param label The label, such as "SALTY MESSAGE".
+ * @param body The text to armor; whitespace is removed before wrapping.
+ * @param options Headers, line width and checksum.
+ * @returns The armored block, without a trailing newline.
+ * @throws Error if the label is invalid, the line width is negative, or a
+ * header value spans several lines
+ */
+export function formatArmor(
+  label: string,
+  body: string,
+  options: ArmorOptions = {},
+): string {
+  const lineWidth = options.lineWidth ?? ARMOR_LINE_WIDTH;
+  if (!LABEL.test(label)) {
+    throw new Error("Invalid armor label");
+  }
+  if (!Number.isInteger(lineWidth) || lineWidth < 0) {
+    throw new Error("Invalid armor line width");
+  }
+
+  const headerLines: string[] = [];
+  for (const key of Object.keys(HEADER_NAMES) as (keyof ArmorHeaders)[]) {
+    const value = options.headers?.[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (/[\r\n]/.test(value)) {
+      throw new Error(`Invalid armor header: ${HEADER_NAMES[key]}`);
+    }
+    headerLines.push(`${HEADER_NAMES[key]}: ${value.trim()}`);
+  }
+
+  const compact = body.replace(/\s+/g, "");
+  const bodyLines = wrapLines(compact, lineWidth);
+  if (options.checksum ?? true) {
+    bodyLines.push(checksumLine(compact));
+  } else if (
+    bodyLines.length > 1 && CHECKSUM_LINE.test(bodyLines[bodyLines.length - 1])
+  ) {
+    // A short last line that looks like a checksum would be read as one, so
+    // it joins the line before
+    const last = bodyLines.pop()!;
+    bodyLines[bodyLines.length - 1] += last;
+  }
+
+  return [
+    `-----BEGIN ${label}-----`,
+    ...(headerLines.length > 0 ? [...headerLines, ""] : []),
+    ...bodyLines,
+    `-----END ${label}-----`,
+  ].join("\n");
+}
+
+/**
+ * Parses an armored block. Surrounding whitespace is ignored, and so are
+ * unknown headers. The blank line after the headers is optional, since body
+ * lines never contain ": ".
+ * @param text The armored text.
+ * @param label The expected label (optional; any label if omitted).
+ * @returns The parsed block, or null if the text is not a single armored
+ * block with the expected label.
+ */
+export function parseArmor(text: string, label?: string): Armor | null {
+  if (typeof text !== "string") {
+    return null;
+  }
+
+  const lines = text.trim().split(/\r?\n/).map((line) => line.trim());
+  const begin = lines[0]?.match(BOUNDARY_LINE);
+  const end = lines[lines.length - 1]?.match(BOUNDARY_LINE);
+  if (
+    lines.length < 2 || !begin || !end || begin[1] !== "BEGIN" ||
+    end[1] !== "END" || begin[2] !== end[2] ||
+    (label !== undefined && begin[2] !== label)
+  ) {
+    return null;
+  }
+
+  let index = 1;
+  const headers: ArmorHeaders = {};
+  for (; index < lines.length - 1; index++) {
+    const match = lines[index].match(HEADER_LINE);
+    if (!match) {
+      break;
+    }
+    const key = (Object.keys(HEADER_NAMES) as (keyof ArmorHeaders)[])
+      .find((name) =>
+        HEADER_NAMES[name].toLowerCase() === match[1].toLowerCase()
+      );
+    if (key) {
+      headers[key] = match[2].trim();
+    }
+  }
+
+  let bodyLines = lines.slice(index, -1).filter((line) => line !== "");
+  let checksum: string | undefined;
+  if (
+    bodyLines.length > 1 && CHECKSUM_LINE.test(bodyLines[bodyLines.length - 1])
+  ) {
+    checksum = bodyLines[bodyLines.length - 1];
+    bodyLines = bodyLines.slice(0, -1);
+  }
+
+  const body = bodyLines.join("").replace(/\s+/g, "");
+  return {
+    label: begin[2],
+    headers,
+    body,
+    checksumValid: checksum === undefined
+      ? undefined
+      : checksum === checksumLine(body),
+  };
+}
+
+/**
+ * Blanks out the armor lines of a text (BEGIN and END lines, headers and
+ * the checksum line), keeping every other character at its offset. Lets a
+ * decoder that skips whitespace report positions in the original text.
+ * @param text The possibly armored text.
+ * @returns The text with armor lines replaced by spaces.
+ */
+export function maskArmor(text: string): string {
+  const lines = text.split("\n");
+  let inArmor = false;
+  // Header lines only follow a BEGIN line, and a checksum line follows the
+  // body
+  let inHeaders = false;
+  let bodyLines = 0;
+  return lines.map((line, index) => {
+    const trimmed = line.trim();
+    const boundary = trimmed.match(BOUNDARY_LINE);
+    if (boundary) {
+      inArmor = inHeaders = boundary[1] === "BEGIN";
+      bodyLines = 0;
+      return " ".repeat(line.length);
+    }
+    if (inHeaders && HEADER_LINE.test(trimmed)) {
+      return " ".repeat(line.length);
+    }
+    inHeaders = false;
+    if (
+      inArmor && bodyLines > 0 && CHECKSUM_LINE.test(trimmed) &&
+      BOUNDARY_LINE.test(lines[index + 1]?.trim() ?? "")
+    ) {
+      return " ".repeat(line.length);
+    }
+    if (trimmed !== "") {
+      bodyLines++;
+    }
+    return line;
+  }).join("\n");
+}
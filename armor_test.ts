@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Tests for the ASCII armor parser and formatter
+ * @description Round trips, headers, line wrapping and CRC-24 checksums
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  ARMOR_LINE_WIDTH,
+  crc24,
+  formatArmor,
+  maskArmor,
+  parseArmor,
+} from "./armor.ts";
+
+/** A body long enough to wrap over several lines */
+const BODY = "&DM" + "abcdefghijklmnopqrstuvwxyz0123456789".repeat(5);
+
+Deno.test("CRC-24 - OpenPGP check value", () => {
+  // The CRC-24/OPENPGP check value for "123456789"
+  assertEquals(crc24(new TextEncoder().encode("123456789")), 0x21CF02);
+  assertEquals(crc24(new Uint8Array(0)), 0xB704CE);
+});
+
+Deno.test("Armor - round trip with headers", () => {
+  const armored = formatArmor("SALTY MESSAGE", BODY, {
+    headers: { version: "1", encoding: "base91", comment: "For Alice" },
+  });
+  const parsed = parseArmor(armored, "SALTY MESSAGE");
+
+  assertEquals(parsed, {
+    label: "SALTY MESSAGE",
+    headers: { version: "1", encoding: "base91", comment: "For Alice" },
+    body: BODY,
+    checksumValid: true,
+  });
+  assertEquals(
+    armored.split("\n").slice(0, 5),
+    [
+      "-----BEGIN SALTY MESSAGE-----",
+      "Version: 1",
+      "Encoding: base91",
+      "Comment: For Alice",
+      "",
+    ],
+  );
+});
+
+Deno.test("Armor - line wrapping", () => {
+  const lines = formatArmor("SALTY MESSAGE", BODY).split("\n");
+  const bodyLines = lines.slice(1, -2);
+
+  assertEquals(bodyLines.join(""), BODY);
+  for (const line of bodyLines.slice(0, -1)) {
+    assertEquals(line.length, ARMOR_LINE_WIDTH);
+  }
+  assertEquals(
+    formatArmor("SALTY MESSAGE", BODY, { lineWidth: 0, checksum: false })
+      .split("\n").length,
+    3,
+  );
+  assertThrows(() => formatArmor("SALTY MESSAGE", BODY, { lineWidth: -1 }));
+});
+
+Deno.test("Armor - checksum line", () => {
+  const armored = formatArmor("SALTY MESSAGE", BODY);
+  const checksum = armored.split("\n").at(-2)!;
+
+  assert(/^=[A-Za-z0-9+/]{4}$/.test(checksum));
+  assertEquals(
+    parseArmor(armored.replace("abc", "abd"))?.checksumValid,
+    false,
+  );
+  assertEquals(
+    parseArmor(formatArmor("SALTY MESSAGE", BODY, { checksum: false }))
+      ?.checksumValid,
+    undefined,
+  );
+});
+
+Deno.test("Armor - a last line like a checksum stays in the body", () => {
+  const body = "a".repeat(ARMOR_LINE_WIDTH) + "=ABCD";
+  const armored = formatArmor("SALTY MESSAGE", body, { checksum: false });
+
+  assertEquals(parseArmor(armored)?.body, body);
+  assertEquals(parseArmor(armored)?.checksumValid, undefined);
+});
+
+Deno.test("Armor - tolerant parsing", () => {
+  const armored = [
+    "",
+    "  -----BEGIN SALTY MESSAGE-----  ",
+    "encoding: hex",
+    "X-Unknown: ignored",
+    "5361 6c74",
+    "7921",
+    "-----END SALTY MESSAGE-----",
+    "",
+  ].join("\r\n");
+
+  assertEquals(parseArmor(armored), {
+    label: "SALTY MESSAGE",
+    headers: { encoding: "hex" },
+    body: "53616c747921",
+    checksumValid: undefined,
+  });
+});
+
+Deno.test("Armor - rejects malformed blocks", () => {
+  const armored = formatArmor("SALTY MESSAGE", BODY);
+
+  assertEquals(parseArmor(BODY), null);
+  assertEquals(parseArmor(armored, "SALTY PUBLIC KEY"), null);
+  assertEquals(
+    parseArmor(armored.replace("END SALTY MESSAGE", "END SALTY KEY")),
+    null,
+  );
+  assertEquals(parseArmor(`Hello\n${armored}`), null);
+  assertThrows(() => formatArmor("salty message", BODY));
+  assertThrows(() =>
+    formatArmor("SALTY MESSAGE", BODY, { headers: { comment: "a\nb" } })
+  );
+});
+
+Deno.test("Armor - masking keeps offsets", () => {
+  const armored = formatArmor("SALTY MESSAGE", BODY, {
+    headers: { comment: "For Alice" },
+  });
+  const masked = maskArmor(armored);
+
+  assertEquals(masked.length, armored.length);
+  assertEquals(masked.replace(/\s+/g, ""), BODY);
+  assertEquals(maskArmor(BODY), BODY);
+  // Header-like lines outside armor are data
+  assertEquals(maskArmor("Comment: hi"), "Comment: hi");
+});
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Web Worker entry for passphrase key derivation
+ * @description Runs PBKDF2 or Argon2id off the main thread for
+ * salty_worker_deriver: takes one SaltyKdfWorkerRequest, posts progress
+ * updates, then the key bytes (transferred) or an error message
+ */
+
+import {
+  deriveKeyBytes,
+  type SaltyKdfWorkerRequest,
+  type SaltyKdfWorkerResponse,
+} from "./salty.ts";
+
+/** The parts of the worker global scope used here */
+interface KdfWorkerScope {
+  onmessage: ((event: MessageEvent<SaltyKdfWorkerRequest>) => void) | null;
+  postMessage(message: SaltyKdfWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as KdfWorkerScope;
+
+scope.onmessage = async (event) => {
+  const { passphrase, params } = event.data;
+  try {
+    const key = await deriveKeyBytes(
+      passphrase,
+      params,
+      (fraction) => scope.postMessage({ type: "progress", fraction }),
+    );
+    // Transferring leaves no copy of the key in the worker
+    scope.postMessage({ type: "key", key }, [key.buffer as ArrayBuffer]);
+  } catch (error) {
+    scope.postMessage({
+      type: "error",
+      message: error instanceof Error ? error.message : "Key derivation failed",
+    });
+  }
+};
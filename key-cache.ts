@@ -0,0 +1,332 @@
+/**
+ * @fileoverview In-memory cache of passphrase-derived keys for the server
+ * @description Lets repeated API calls with the same passphrase skip the
+ * KDF. Entries are non-extractable CryptoKeys with a fixed lifetime, held
+ * under an HMAC of the passphrase, salt and KDF parameters, so the cache
+ * never stores a passphrase or anything that can be checked against one
+ * offline.
+ */
+
+import {
+  salty_derive_key,
+  salty_key_params,
+  type SaltyKdfOptions,
+  type SaltyKeyCache,
+  type SaltyKeyParams,
+} from "./salty.ts";
+
+/** Default lifetime of a cached key in milliseconds (5 minutes) */
+export const DEFAULT_KEY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** Default maximum number of cached keys */
+export const DEFAULT_KEY_CACHE_MAX_ENTRIES = 100;
+
+/** Domain separation for the two kinds of HMAC lookup */
+enum LookupPurpose {
+  /** An entry: passphrase, salt and parameters */
+  ENTRY = 0,
+  /** The entry reused for encryption: passphrase and parameters only */
+  ENCRYPTION = 1,
+}
+
+/**
+ * Options for DerivedKeyCache
+ */
+export interface DerivedKeyCacheOptions {
+  /** Lifetime of an entry from when it is derived, in milliseconds */
+  ttlMs?: number;
+  /** Maximum number of entries; the least recently used goes first */
+  maxEntries?: number;
+  /** Clock in milliseconds (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Cache counters, as reported by /health
+ */
+export interface DerivedKeyCacheStats {
+  /** Lookups answered from the cache */
+  hits: number;
+  /** Lookups that ran the KDF */
+  misses: number;
+  /** Entries dropped because they expired or the cache was full */
+  evictions: number;
+  /** Entries currently held */
+  size: number;
+  /** Maximum number of entries */
+  maxEntries: number;
+  /** Lifetime of an entry in seconds */
+  ttlSeconds: number;
+}
+
+/**
+ * A cached key
+ */
+interface CacheEntry {
+  /** HMAC lookup id */
+  id: string;
+  /** The key, or its pending derivation */
+  key: Promise<CryptoKey>;
+  /** Copy of the salt, zeroed on eviction */
+  salt: Uint8Array;
+  /** When the entry expires (milliseconds) */
+  expiresAt: number;
+}
+
+/**
+ * Appends a 32-bit big-endian length and the bytes.
+ */
+function lengthPrefixed(data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + data.length);
+  new DataView(out.buffer).setUint32(0, data.length);
+  out.set(data, 4);
+  return out;
+}
+
+/**
+ * Cache of non-extractable passphrase-derived keys with a TTL and a size
+ * cap. Decryption uses it through the keyCache option of salty_decrypt;
+ * encryption through encryptionKey, which reuses the salt of a live entry
+ * so that later messages with the same passphrase hit the cache too.
+ */
+export class DerivedKeyCache implements SaltyKeyCache {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  /** Entries by id, least recently used first */
+  private entries: Map<string, CacheEntry> = new Map();
+  /** Entries reused for encryption, by passphrase and parameters */
+  private encryptionEntries: Map<string, CacheEntry> = new Map();
+  /** Per-process HMAC key; lookup ids mean nothing outside this process */
+  private hmacKey: Promise<CryptoKey> | null = null;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  /**
+   * Creates a cache.
+   * @param options Lifetime, size cap and clock.
+   * @throws Error if the lifetime or size cap is not a positive integer
+   */
+  constructor(options: DerivedKeyCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_KEY_CACHE_TTL_MS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_KEY_CACHE_MAX_ENTRIES;
+    this.now = options.now ?? Date.now;
+    if (!Number.isInteger(this.ttlMs) || this.ttlMs < 1) {
+      throw new Error("Key cache TTL must be a positive integer");
+    }
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new Error("Key cache size must be a positive integer");
+    }
+  }
+
+  /**
+   * Returns the cached key for a passphrase and parameters, deriving and
+   * caching it on a miss. Concurrent misses share one derivation.
+   * @param passphrase The passphrase.
+   * @param params The KDF, its cost parameters and the salt.
+   * @param derive Derives the key on a miss.
+   * @returns The key.
+   */
+  async resolve(
+    passphrase: string,
+    params: SaltyKeyParams,
+    derive: () => Promise<CryptoKey>,
+  ): Promise<CryptoKey> {
+    this.pruneExpired();
+    const id = await this.lookupId(LookupPurpose.ENTRY, passphrase, params);
+    const cached = this.entries.get(id);
+    if (cached) {
+      this.hits++;
+      this.touch(cached);
+      return await cached.key;
+    }
+
+    this.misses++;
+    const entry = this.insert(id, params.salt, derive());
+    try {
+      return await entry.key;
+    } catch (error) {
+      this.remove(entry);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns a key to encrypt with for a passphrase. A live entry for the
+   * same passphrase and parameters is reused, salt included; otherwise a
+   * key is derived with a fresh salt and cached.
+   * @param passphrase The passphrase.
+   * @param kdf The KDF and cost parameters for new messages.
+   * @returns A non-extractable key that records its parameters.
+   */
+  async encryptionKey(
+    passphrase: string,
+    kdf: SaltyKdfOptions,
+  ): Promise<CryptoKey> {
+    this.pruneExpired();
+    const slot = await this.lookupId(LookupPurpose.ENCRYPTION, passphrase, {
+      kdf: kdf.kdf,
+      iterations: kdf.iterations,
+      memory: kdf.memory,
+      parallelism: kdf.parallelism,
+    });
+    const cached = this.encryptionEntries.get(slot);
+    if (cached && this.entries.get(cached.id) === cached) {
+      this.hits++;
+      this.touch(cached);
+      return await cached.key;
+    }
+
+    this.misses++;
+    const key = await salty_derive_key(passphrase, {
+      ...kdf,
+      extractable: false,
+    });
+    const params = salty_key_params(key)!;
+    const id = await this.lookupId(LookupPurpose.ENTRY, passphrase, params);
+    this.encryptionEntries.set(
+      slot,
+      this.insert(id, params.salt, Promise.resolve(key)),
+    );
+    return key;
+  }
+
+  /**
+   * Drops expired entries.
+   */
+  pruneExpired(): void {
+    const now = this.now();
+    for (const entry of [...this.entries.values()]) {
+      if (entry.expiresAt <= now) {
+        this.evict(entry);
+      }
+    }
+    for (const [slot, entry] of [...this.encryptionEntries]) {
+      if (this.entries.get(entry.id) !== entry) {
+        this.encryptionEntries.delete(slot);
+      }
+    }
+  }
+
+  /**
+   * Drops every entry, for example at shutdown.
+   */
+  clear(): void {
+    for (const entry of [...this.entries.values()]) {
+      this.remove(entry);
+    }
+    this.encryptionEntries.clear();
+  }
+
+  /**
+   * Returns the cache counters.
+   */
+  getStats(): DerivedKeyCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      ttlSeconds: this.ttlMs / 1000,
+    };
+  }
+
+  /**
+   * Adds an entry, evicting the least recently used one if the cache is
+   * full.
+   */
+  private insert(
+    id: string,
+    salt: Uint8Array,
+    key: Promise<CryptoKey>,
+  ): CacheEntry {
+    while (this.entries.size >= this.maxEntries) {
+      this.evict(this.entries.values().next().value!);
+    }
+    const entry: CacheEntry = {
+      id,
+      key,
+      salt: salt.slice(),
+      expiresAt: this.now() + this.ttlMs,
+    };
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  /**
+   * Marks an entry as most recently used. Its lifetime is not extended.
+   */
+  private touch(entry: CacheEntry): void {
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+  }
+
+  /**
+   * Removes an entry and counts it as evicted.
+   */
+  private evict(entry: CacheEntry): void {
+    this.remove(entry);
+    this.evictions++;
+  }
+
+  /**
+   * Removes an entry and zeroes the bytes it holds. The CryptoKey itself is
+   * not extractable, so dropping the last reference is all that can be
+   * done for it.
+   */
+  private remove(entry: CacheEntry): void {
+    if (this.entries.get(entry.id) === entry) {
+      this.entries.delete(entry.id);
+    }
+    entry.salt.fill(0);
+  }
+
+  /**
+   * Computes a lookup id: HMAC-SHA256 over the purpose, passphrase, salt
+   * and KDF parameters, each length-prefixed.
+   */
+  private async lookupId(
+    purpose: LookupPurpose,
+    passphrase: string,
+    params: Partial<SaltyKeyParams>,
+  ): Promise<string> {
+    this.hmacKey ??= crypto.subtle.generateKey(
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    ) as Promise<CryptoKey>;
+
+    const costs = new Uint8Array(13);
+    const view = new DataView(costs.buffer);
+    view.setUint32(0, params.iterations ?? 0);
+    view.setUint32(4, params.memory ?? 0);
+    view.setUint32(8, params.parallelism ?? 0);
+    costs[12] = params.kdf ?? 0;
+
+    const passphraseBytes = new TextEncoder().encode(passphrase);
+    const parts = [
+      Uint8Array.of(purpose),
+      lengthPrefixed(passphraseBytes),
+      lengthPrefixed(params.salt ?? new Uint8Array(0)),
+      costs,
+    ];
+    const message = new Uint8Array(
+      parts.reduce((length, part) => length + part.length, 0),
+    );
+    let offset = 0;
+    for (const part of parts) {
+      message.set(part, offset);
+      offset += part.length;
+    }
+    passphraseBytes.fill(0);
+
+    try {
+      const mac = await crypto.subtle.sign("HMAC", await this.hmacKey, message);
+      return btoa(String.fromCharCode(...new Uint8Array(mac)));
+    } finally {
+      message.fill(0);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Tests for the server's derived-key cache
+ * @description Hits and misses, lifetime, size cap and use from
+ * salty_decrypt
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertNotEquals,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { DerivedKeyCache } from "./key-cache.ts";
+import {
+  decodeCiphertext,
+  parseEnvelope,
+  salty_decrypt,
+  salty_encrypt,
+  salty_key_params,
+  SaltyKdf,
+  type SaltyKeyParams,
+} from "./salty.ts";
+
+/** Cheap Argon2id costs so each derivation takes milliseconds */
+const KDF = {
+  kdf: SaltyKdf.ARGON2ID as const,
+  iterations: 1,
+  memory: 64,
+  parallelism: 1,
+};
+
+/** Key parameters with a fixed salt */
+function params(saltByte: number): SaltyKeyParams {
+  return { ...KDF, salt: new Uint8Array(16).fill(saltByte) };
+}
+
+/** A derive callback that counts its calls */
+function counter() {
+  const calls = { count: 0 };
+  const derive = async () => {
+    calls.count++;
+    return await crypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  };
+  return { calls, derive };
+}
+
+Deno.test("Key Cache - hits and misses", async () => {
+  const cache = new DerivedKeyCache();
+  const { calls, derive } = counter();
+
+  const first = await cache.resolve("secret", params(1), derive);
+  const second = await cache.resolve("secret", params(1), derive);
+  await cache.resolve("other", params(1), derive);
+  await cache.resolve("secret", params(2), derive);
+
+  assert(first === second);
+  assertEquals(calls.count, 3);
+  assertEquals(cache.getStats(), {
+    hits: 1,
+    misses: 3,
+    evictions: 0,
+    size: 3,
+    maxEntries: 100,
+    ttlSeconds: 300,
+  });
+});
+
+Deno.test("Key Cache - concurrent misses share a derivation", async () => {
+  const cache = new DerivedKeyCache();
+  const { calls, derive } = counter();
+
+  const [a, b] = await Promise.all([
+    cache.resolve("secret", params(1), derive),
+    cache.resolve("secret", params(1), derive),
+  ]);
+
+  assert(a === b);
+  assertEquals(calls.count, 1);
+});
+
+Deno.test("Key Cache - entries expire", async () => {
+  let now = 0;
+  const cache = new DerivedKeyCache({ ttlMs: 1000, now: () => now });
+  const { calls, derive } = counter();
+
+  await cache.resolve("secret", params(1), derive);
+  now = 999;
+  await cache.resolve("secret", params(1), derive);
+  // A hit does not extend the lifetime
+  now = 1000;
+  await cache.resolve("secret", params(1), derive);
+
+  assertEquals(calls.count, 2);
+  assertEquals(cache.getStats().evictions, 1);
+});
+
+Deno.test("Key Cache - size cap evicts the least recently used", async () => {
+  const cache = new DerivedKeyCache({ maxEntries: 2 });
+  const { calls, derive } = counter();
+
+  await cache.resolve("a", params(1), derive);
+  await cache.resolve("b", params(1), derive);
+  await cache.resolve("a", params(1), derive);
+  await cache.resolve("c", params(1), derive);
+  await cache.resolve("a", params(1), derive);
+  await cache.resolve("b", params(1), derive);
+
+  // "b" was the least recently used when "c" arrived
+  assertEquals(calls.count, 4);
+  assertEquals(cache.getStats().size, 2);
+});
+
+Deno.test("Key Cache - failed derivations are not cached", async () => {
+  const cache = new DerivedKeyCache();
+
+  await assertRejects(() =>
+    cache.resolve("secret", params(1), () => Promise.reject(new Error("x")))
+  );
+  assertEquals(cache.getStats().size, 0);
+  assertThrows(() => new DerivedKeyCache({ ttlMs: 0 }));
+  assertThrows(() => new DerivedKeyCache({ maxEntries: 1.5 }));
+});
+
+Deno.test("Key Cache - encryption and decryption", async (t) => {
+  const cache = new DerivedKeyCache();
+
+  await t.step("should reuse the encryption key and its salt", async () => {
+    const key1 = await cache.encryptionKey("secret", KDF);
+    const key2 = await cache.encryptionKey("secret", KDF);
+
+    assert(key1 === key2);
+    assert(!key1.extractable);
+    assertEquals(salty_key_params(key1)?.memory, 64);
+    const other = await cache.encryptionKey("other", KDF);
+    assertNotEquals(
+      salty_key_params(other)?.salt,
+      salty_key_params(key1)?.salt,
+    );
+  });
+
+  await t.step("should decrypt from the cache", async () => {
+    const key = await cache.encryptionKey("secret", KDF);
+    const encrypted = await salty_encrypt("Hello", key);
+    const before = cache.getStats();
+
+    assertEquals(
+      await salty_decrypt(encrypted, "secret", { keyCache: cache }),
+      "Hello",
+    );
+    assertEquals(cache.getStats().hits, before.hits + 1);
+    assertEquals(cache.getStats().misses, before.misses);
+    // The cached key is the one that encrypted
+    assertEquals(
+      parseEnvelope(decodeCiphertext(encrypted)!)?.header.salt,
+      salty_key_params(key)?.salt,
+    );
+  });
+
+  await t.step("should cache keys derived to decrypt", async () => {
+    const encrypted = await salty_encrypt("Hello", "fresh", { kdf: KDF });
+    const before = cache.getStats();
+
+    assertEquals(
+      await salty_decrypt(encrypted, "fresh", { keyCache: cache }),
+      "Hello",
+    );
+    assertEquals(
+      await salty_decrypt(encrypted, "fresh", { keyCache: cache }),
+      "Hello",
+    );
+    assertEquals(cache.getStats().misses, before.misses + 1);
+    assertEquals(cache.getStats().hits, before.hits + 1);
+    assertEquals(
+      await salty_decrypt(encrypted, "wrong", { keyCache: cache }),
+      null,
+    );
+  });
+
+  await t.step("should forget everything on clear", async () => {
+    cache.clear();
+    assertEquals(cache.getStats().size, 0);
+    const key = await cache.encryptionKey("secret", KDF);
+    assertEquals(cache.getStats().size, 1);
+    assert(!key.extractable);
+  });
+});
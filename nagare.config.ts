@@ -26,8 +26,8 @@ export default {
           runtime: "Deno",
           cryptoFeatures: [
             "AES-GCM-256 encryption",
-            "PBKDF2-SHA512 key derivation",
-            "600,000 iterations",
+            "Argon2id key derivation (19 MiB, 2 passes)",
+            "PBKDF2-SHA512 key derivation (600,000 iterations)",
             "basE91 encoding",
             "Web Crypto API",
           ],
@@ -53,6 +53,56 @@ export default {
               method: "POST",
               description: "Decrypt endpoint",
             },
+            {
+              path: "/api/batch/encrypt",
+              method: "POST",
+              description: "Encrypt many payloads in one request",
+            },
+            {
+              path: "/api/batch/decrypt",
+              method: "POST",
+              description: "Decrypt many payloads in one request",
+            },
+            {
+              path: "/api/encrypt-stream",
+              method: "POST",
+              description: "Streaming encrypt endpoint",
+            },
+            {
+              path: "/api/decrypt-stream",
+              method: "POST",
+              description: "Streaming decrypt endpoint",
+            },
+            {
+              path: "/api/verify",
+              method: "POST",
+              description: "Signature verification endpoint",
+            },
+            {
+              path: "/api/rekey",
+              method: "POST",
+              description: "Re-encrypt under a new key (single or batch)",
+            },
+            {
+              path: "/api/shares/split",
+              method: "POST",
+              description: "Split a payload into Shamir shares",
+            },
+            {
+              path: "/api/shares/combine",
+              method: "POST",
+              description: "Recover a payload from Shamir shares",
+            },
+            {
+              path: "/api/openapi.json",
+              method: "GET",
+              description: "OpenAPI description of the API",
+            },
+            {
+              path: "/api/docs",
+              method: "GET",
+              description: "API documentation page",
+            },
             {
               path: "/health",
               method: "GET",
@@ -93,7 +143,7 @@ export default {
             owasp: {
               a01_brokenAccessControl: "N/A - No user authentication system",
               a02_cryptographicFailures:
-                "AES-256-GCM with PBKDF2-SHA512 (600k iterations)",
+                "AES-256-GCM with Argon2id (PBKDF2-SHA512 for compatibility)",
               a03_injection:
                 "Input validation and sanitization on all endpoints",
               a04_insecureDesign: "Security-first design with rate limiting",
@@ -112,8 +162,10 @@ export default {
           encryptionDetails: {
             algorithm: "AES-GCM",
             keySize: 256,
-            keyDerivation: "PBKDF2-SHA512",
-            iterations: 600000,
+            keyDerivation: "Argon2id",
+            argon2MemoryKiB: 19456,
+            argon2Iterations: 2,
+            pbkdf2Iterations: 600000,
             saltSize: 16,
             ivSize: 12,
             tagSize: 16,
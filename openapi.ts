@@ -0,0 +1,446 @@
+/**
+ * @fileoverview OpenAPI document and docs page for the Salty API
+ * @description Generates an OpenAPI 3.1 document per API version from the
+ * route registry in api-schema.ts, for /api/v{n}/openapi.json and typed
+ * clients, and renders the same routes as a self-contained HTML page for
+ * /api/v{n}/docs. The page has no scripts and no external assets, so it
+ * stays within the server's CSP.
+ */
+
+import {
+  API_ROUTES,
+  API_VERSIONS,
+  type ApiRoute,
+  type ApiVersion,
+  describeSchema,
+  routeErrorCodes,
+  type Schema,
+  UNVERSIONED_API_VERSION,
+  versionedPath,
+} from "./api-schema.ts";
+import {
+  ERROR_CATALOGUE,
+  PROBLEM_MEDIA_TYPE,
+  problemType,
+} from "./api-errors.ts";
+import { escapeHtml } from "./security-utils.ts";
+
+/**
+ * An OpenAPI 3.1 document
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  tags: { name: string }[];
+  paths: Record<string, Record<string, Record<string, unknown>>>;
+  components: {
+    securitySchemes: Record<string, unknown>;
+    schemas: Record<string, Schema>;
+  };
+}
+
+/** RFC 9457 members, and the code and request ID, of every problem */
+const PROBLEM_PROPERTIES: Record<string, Schema> = {
+  type: {
+    type: "string",
+    format: "uri-reference",
+    description: "The code's entry in the API docs",
+  },
+  title: { type: "string", description: "Summary of the code" },
+  status: { type: "integer", description: "HTTP status" },
+  detail: { type: "string", description: "Message for people" },
+  code: {
+    type: "string",
+    enum: Object.keys(ERROR_CATALOGUE),
+    description: "Stable code for programs",
+  },
+  requestId: { type: "string", description: "ID in the server logs" },
+  details: {
+    type: "object",
+    description: "Structured details, such as where an invalid character is",
+  },
+};
+
+/** Required members of every problem */
+const PROBLEM_REQUIRED = [
+  "type",
+  "title",
+  "status",
+  "detail",
+  "code",
+  "requestId",
+];
+
+/** Metadata of every v2 response */
+const META_V2: Schema = {
+  type: "object",
+  required: ["apiVersion", "timestamp"],
+  properties: {
+    apiVersion: { type: "string", enum: ["v2"] },
+    timestamp: { type: "string", format: "date-time" },
+  },
+};
+
+/** Problem details of every failed API response, by version */
+const ERROR_RESPONSE: Record<ApiVersion, Schema> = {
+  v1: {
+    type: "object",
+    required: [...PROBLEM_REQUIRED, "success", "error", "timestamp"],
+    properties: {
+      ...PROBLEM_PROPERTIES,
+      success: { type: "boolean", enum: [false] },
+      error: { type: "string", description: "The same as detail" },
+      timestamp: { type: "string", format: "date-time" },
+    },
+  },
+  v2: {
+    type: "object",
+    required: [...PROBLEM_REQUIRED, "meta"],
+    properties: { ...PROBLEM_PROPERTIES, meta: META_V2 },
+  },
+};
+
+/**
+ * Wraps response data in the envelope of successful JSON API responses.
+ */
+function successEnvelope(data: Schema, apiVersion: ApiVersion): Schema {
+  if (apiVersion === "v2") {
+    return {
+      type: "object",
+      required: ["data", "meta"],
+      properties: { data, meta: META_V2 },
+    };
+  }
+  return {
+    type: "object",
+    required: ["success", "timestamp", "data"],
+    properties: {
+      success: { type: "boolean", enum: [true] },
+      timestamp: { type: "string", format: "date-time" },
+      data,
+    },
+  };
+}
+
+/**
+ * Groups a route's error codes by HTTP status.
+ */
+function errorsByStatus(route: ApiRoute): Map<number, string[]> {
+  const groups = new Map<number, string[]>();
+  for (const code of routeErrorCodes(route)) {
+    const status = ERROR_CATALOGUE[code]?.status ?? 400;
+    groups.set(status, [...groups.get(status) ?? [], code]);
+  }
+  return new Map([...groups].sort(([a], [b]) => a - b));
+}
+
+/**
+ * Builds the OpenAPI operation for one route.
+ */
+function buildOperation(
+  route: ApiRoute,
+  apiVersion: ApiVersion,
+): Record<string, unknown> {
+  const operation: Record<string, unknown> = {
+    operationId: route.operationId,
+    tags: [route.tag],
+    summary: route.summary,
+  };
+  if (route.description) {
+    operation.description = route.description;
+  }
+  operation.security = route.auth ? [{ ApiKey: [] }] : [];
+  if (route.headers) {
+    operation.parameters = route.headers.map((header) => ({
+      name: header.name,
+      in: "header",
+      required: header.required,
+      description: header.description,
+      schema: { type: "string" },
+    }));
+  }
+  if (route.body) {
+    operation.requestBody = {
+      required: true,
+      content: { "application/json": { schema: route.body } },
+    };
+  } else if (route.rawBody) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        [route.rawBody]: { schema: { type: "string", format: "binary" } },
+      },
+    };
+  }
+
+  const responses: Record<string, unknown> = {};
+  if (route.rawResponse) {
+    const { mediaType, schema } = route.rawResponse;
+    responses["200"] = {
+      description: "Success",
+      content: {
+        [mediaType]: {
+          schema: schema ?? { type: "string", format: "binary" },
+        },
+      },
+    };
+  } else {
+    responses["200"] = {
+      description: "Success",
+      content: {
+        "application/json": {
+          schema: successEnvelope(route.data ?? {}, apiVersion),
+        },
+      },
+    };
+  }
+  for (const [status, codes] of errorsByStatus(route)) {
+    responses[String(status)] = {
+      description: `Error codes: ${codes.join(", ")}`,
+      content: {
+        [PROBLEM_MEDIA_TYPE]: {
+          schema: { $ref: "#/components/schemas/ErrorResponse" },
+        },
+      },
+    };
+  }
+  operation.responses = responses;
+  operation["x-error-codes"] = routeErrorCodes(route);
+  return operation;
+}
+
+/** How each version's JSON responses carry results and errors */
+const ENVELOPE_DESCRIPTION: Record<ApiVersion, string> = {
+  v1: "Successful JSON responses carry the result in data. Failed ones are " +
+    "RFC 9457 problem details with a stable code and a requestId, and " +
+    "also carry the message in error.",
+  v2: "Successful JSON responses carry the result in data. Failed ones are " +
+    "RFC 9457 problem details with a stable code and a requestId. Both " +
+    "carry meta with the API version and a timestamp.",
+};
+
+/**
+ * Builds the OpenAPI document of one API version for every route in the
+ * registry.
+ * @param version The server version, for info.version.
+ * @param apiVersion The API version, which sets the paths and envelopes.
+ * @returns The OpenAPI 3.1 document.
+ */
+export function buildOpenApiDocument(
+  version: string,
+  apiVersion: ApiVersion,
+): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+  for (const route of API_ROUTES) {
+    const path = versionedPath(route.path, apiVersion);
+    paths[path] = {
+      ...paths[path],
+      [route.method.toLowerCase()]: buildOperation(route, apiVersion),
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: `Salty API ${apiVersion}`,
+      version,
+      description: `Passphrase-based text encryption. ${
+        ENVELOPE_DESCRIPTION[apiVersion]
+      }`,
+    },
+    tags: [...new Set(API_ROUTES.map((route) => route.tag))].map((name) => ({
+      name,
+    })),
+    paths,
+    components: {
+      securitySchemes: {
+        ApiKey: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description: "Required only when the server sets API_KEY",
+        },
+      },
+      schemas: { ErrorResponse: ERROR_RESPONSE[apiVersion] },
+    },
+  };
+}
+
+/**
+ * Renders a schema's fields as nested lists.
+ */
+function renderSchema(schema: Schema): string {
+  if (schema.oneOf) {
+    return `<p>One of:</p><ul>${
+      schema.oneOf.map((option) => `<li>${renderSchema(option)}</li>`).join("")
+    }</ul>`;
+  }
+  if (schema.type === "array" && schema.items?.properties) {
+    return `<p>${escapeHtml(describeSchema(schema))}, each:</p>${
+      renderSchema(schema.items)
+    }`;
+  }
+  if (!schema.properties) {
+    return `<p>${escapeHtml(describeSchema(schema))}${
+      schema.description ? ` &mdash; ${escapeHtml(schema.description)}` : ""
+    }</p>`;
+  }
+
+  const fields = Object.entries(schema.properties).map(([name, field]) => {
+    const required = schema.required?.includes(name)
+      ? " <em>required</em>"
+      : "";
+    const description = field.description
+      ? ` &mdash; ${escapeHtml(field.description)}`
+      : "";
+    const fieldsOf = field.type === "array" ? field.items : field;
+    const nested = fieldsOf?.properties ? renderSchema(fieldsOf) : "";
+    return `<li><code>${escapeHtml(name)}</code>${required}: ${
+      escapeHtml(describeSchema(field))
+    }${description}${nested}</li>`;
+  });
+  return `<ul>${fields.join("")}</ul>`;
+}
+
+/**
+ * Renders one route.
+ */
+function renderRoute(route: ApiRoute, apiVersion: ApiVersion): string {
+  const parts = [
+    `<section id="${escapeHtml(route.operationId)}">`,
+    `<h3><span class="method">${route.method}</span> <code>${
+      escapeHtml(versionedPath(route.path, apiVersion))
+    }</code></h3>`,
+    `<p>${escapeHtml(route.summary)}.${
+      route.description ? ` ${escapeHtml(route.description)}` : ""
+    }</p>`,
+  ];
+  if (route.auth) {
+    parts.push(
+      "<p><small>Rate limited. Send <code>X-API-Key</code> when the server requires an API key.</small></p>",
+    );
+  }
+  if (route.headers) {
+    parts.push(
+      "<h4>Headers</h4><ul>",
+      ...route.headers.map((header) =>
+        `<li><code>${escapeHtml(header.name)}</code>${
+          header.required ? " <em>required</em>" : ""
+        } &mdash; ${escapeHtml(header.description)}</li>`
+      ),
+      "</ul>",
+    );
+  }
+  if (route.body) {
+    parts.push("<h4>Request body (JSON)</h4>", renderSchema(route.body));
+  } else if (route.rawBody) {
+    parts.push(`<h4>Request body</h4><p>${escapeHtml(route.rawBody)}</p>`);
+  }
+  parts.push("<h4>Response</h4>");
+  if (route.rawResponse) {
+    parts.push(`<p>${escapeHtml(route.rawResponse.mediaType)}</p>`);
+    if (route.rawResponse.schema?.properties) {
+      parts.push(renderSchema(route.rawResponse.schema));
+    }
+  } else {
+    parts.push(
+      `<p><code>${
+        apiVersion === "v2"
+          ? "{ data, meta }"
+          : "{ success: true, timestamp, data }"
+      }</code>, where <code>data</code> is:</p>`,
+      renderSchema(route.data ?? {}),
+    );
+  }
+  parts.push(
+    "<h4>Errors</h4><ul>",
+    ...[...errorsByStatus(route)].map(([status, codes]) =>
+      `<li>${status}: ${
+        codes.map((code) =>
+          `<a href="#error-${escapeHtml(code)}"><code>${
+            escapeHtml(code)
+          }</code></a>`
+        ).join(", ")
+      }</li>`
+    ),
+    "</ul></section>",
+  );
+  return parts.join("\n");
+}
+
+/**
+ * Renders the error catalogue, with an anchor per code for problem types.
+ */
+function renderErrorCatalogue(apiVersion: ApiVersion): string {
+  const rows = Object.entries(ERROR_CATALOGUE).map(([code, entry]) =>
+    `<tr id="error-${escapeHtml(code)}"><td><code>${
+      escapeHtml(code)
+    }</code></td><td>${entry.status}</td><td>${
+      escapeHtml(entry.title)
+    }</td><td>${escapeHtml(entry.description)}</td></tr>`
+  );
+  return `<h2 id="errors">Errors</h2>
+<p>Failed responses are <code>${PROBLEM_MEDIA_TYPE}</code> (RFC 9457). The
+<code>type</code> of a problem links its code below, such as
+<code>${escapeHtml(problemType("WRONG_KEY", apiVersion))}</code>. Codes are
+stable: none is renamed, removed or given another status within a version.</p>
+<table>
+<tr><th>Code</th><th>Status</th><th>Title</th><th>When</th></tr>
+${rows.join("\n")}
+</table>`;
+}
+
+/**
+ * Renders the API docs page of one API version.
+ * @param version The server version.
+ * @param apiVersion The API version, which sets the paths and envelopes.
+ * @returns A self-contained HTML page without scripts.
+ */
+export function renderApiDocs(version: string, apiVersion: ApiVersion): string {
+  const tags = [...new Set(API_ROUTES.map((route) => route.tag))];
+  const sections = tags.map((tag) =>
+    `<h2>${escapeHtml(tag)}</h2>\n${
+      API_ROUTES.filter((route) => route.tag === tag).map((route) =>
+        renderRoute(route, apiVersion)
+      ).join("\n")
+    }`
+  );
+  const otherVersions = API_VERSIONS.filter((other) => other !== apiVersion)
+    .map((other) =>
+      `<a href="${versionedPath("/api/docs", other)}">${other}</a>`
+    ).join(", ");
+  const failed = apiVersion === "v2"
+    ? "{ type, title, status, detail, code, requestId, details, meta }"
+    : "{ type, title, status, detail, code, requestId, details, success: false, error, timestamp }";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Salty API ${apiVersion} (${escapeHtml(version)})</title>
+<style>
+body { font-family: system-ui, sans-serif; line-height: 1.5; max-width: 60rem; margin: 0 auto; padding: 1rem 2rem; color: #1f2937; }
+h2 { border-bottom: 1px solid #d1d5db; padding-bottom: .25rem; margin-top: 2.5rem; }
+section { margin: 1.5rem 0; padding: 0 1rem; border-left: 3px solid #e5e7eb; }
+code { background: #f3f4f6; padding: 0 .25rem; border-radius: 3px; }
+.method { font-size: .8em; font-weight: bold; color: #fff; background: #2563eb; padding: .1rem .4rem; border-radius: 3px; }
+em { color: #b91c1c; font-style: normal; font-size: .9em; }
+table { border-collapse: collapse; }
+th, td { text-align: left; vertical-align: top; padding: .25rem .5rem; border-bottom: 1px solid #e5e7eb; }
+</style>
+</head>
+<body>
+<h1>Salty API ${apiVersion} <small>${escapeHtml(version)}</small></h1>
+<p>Machine-readable description: <a href="${
+    versionedPath("/api/openapi.json", apiVersion)
+  }">${versionedPath("/api/openapi.json", apiVersion)}</a> (OpenAPI 3.1).
+Failed responses are <a href="#errors">problem details</a>: <code>${failed}</code>.
+Other versions: ${otherVersions}.</p>
+<p>The unversioned <code>/api/*</code> paths are deprecated aliases of ${UNVERSIONED_API_VERSION}.</p>
+${sections.join("\n")}
+${renderErrorCatalogue(apiVersion)}
+</body>
+</html>
+`;
+}
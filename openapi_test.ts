@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Tests for the OpenAPI document and docs page
+ * @description The document covers every registry route with its schemas
+ * and error codes, and the docs page escapes content and loads nothing
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { API_ROUTES, findRoute, versionedPath } from "./api-schema.ts";
+import { buildOpenApiDocument, renderApiDocs } from "./openapi.ts";
+import { escapeHtml } from "./security-utils.ts";
+
+Deno.test("OpenAPI - document covers every route", () => {
+  const document = buildOpenApiDocument("1.2.3", "v1");
+
+  assertEquals(document.openapi, "3.1.0");
+  assertEquals(document.info.version, "1.2.3");
+  for (const route of API_ROUTES) {
+    const operation = document.paths[versionedPath(route.path, "v1")][
+      route.method.toLowerCase()
+    ];
+    assertEquals(operation.operationId, route.operationId);
+  }
+  // The document survives a JSON round trip unchanged
+  assertEquals(JSON.parse(JSON.stringify(document)), document);
+});
+
+Deno.test("OpenAPI - operations carry schemas, security and errors", () => {
+  const document = buildOpenApiDocument("1.2.3", "v1");
+  const encrypt = document.paths["/api/v1/encrypt"].post;
+  const responses = encrypt.responses as Record<string, unknown>;
+
+  assertEquals(
+    (encrypt.requestBody as {
+      content: Record<string, { schema: unknown }>;
+    }).content["application/json"].schema,
+    findRoute("/api/encrypt")!.body,
+  );
+  assertEquals(encrypt.security, [{ ApiKey: [] }]);
+  assertEquals(Object.keys(responses), [
+    "200",
+    "400",
+    "401",
+    "405",
+    "413",
+    "429",
+    "500",
+  ]);
+  assert((encrypt["x-error-codes"] as string[]).includes("INVALID_KEY"));
+  assertEquals(
+    Object.keys(
+      (responses["429"] as { content: Record<string, unknown> }).content,
+    ),
+    ["application/problem+json"],
+  );
+
+  const stream = document.paths["/api/v1/encrypt-stream"].post;
+  assertEquals(
+    (stream.parameters as { name: string }[]).map((header) => header.name),
+    ["X-Salty-Key"],
+  );
+  assertEquals(document.paths["/health"].get.security, []);
+});
+
+Deno.test("OpenAPI - v2 has its own paths and envelope", () => {
+  const document = buildOpenApiDocument("1.2.3", "v2");
+  const decrypt = document.paths["/api/v2/decrypt"].post as {
+    responses: Record<string, { content: Record<string, { schema: unknown }> }>;
+  };
+
+  assertEquals(document.paths["/api/decrypt"], undefined);
+  assert(document.paths["/health"].get);
+  assertEquals(
+    Object.keys(
+      (decrypt.responses["200"].content["application/json"].schema as {
+        properties: Record<string, unknown>;
+      }).properties,
+    ),
+    ["data", "meta"],
+  );
+  assertEquals(document.components.schemas.ErrorResponse.required, [
+    "type",
+    "title",
+    "status",
+    "detail",
+    "code",
+    "requestId",
+    "meta",
+  ]);
+  assertStringIncludes(
+    renderApiDocs("1.2.3", "v2"),
+    `<code>${escapeHtml("/api/v2/decrypt")}</code>`,
+  );
+});
+
+Deno.test("OpenAPI - docs page is self-contained", () => {
+  const html = renderApiDocs("1.2.3", "v1");
+
+  assertStringIncludes(html, "/api/v1/openapi.json");
+  assertStringIncludes(html, "INVALID_RECIPIENTS");
+  // Problem types link to the error catalogue
+  assertStringIncludes(html, 'id="error-RATE_LIMIT_EXCEEDED"');
+  assertStringIncludes(html, 'href="#error-WRONG_KEY"');
+  for (const route of API_ROUTES) {
+    assertStringIncludes(html, `id="${route.operationId}"`);
+  }
+  assertEquals(/<script|<link|src=/i.test(html), false);
+  assertEquals(
+    renderApiDocs("<b>", "v1").includes("<b>"),
+    false,
+  );
+});
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Table-driven HTTP router with composable middleware
+ * @description Routes match exact paths or path prefixes and list the
+ * methods they allow; any other method gets an automatic 405 response with
+ * an Allow header. Middleware wraps handlers, so checks such as rate limits
+ * and API keys are declared once per route instead of called ad hoc.
+ */
+
+/**
+ * Handles a request
+ * @template C Per-request context, such as the client IP
+ */
+export type Handler<C> = (request: Request, context: C) => Promise<Response>;
+
+/**
+ * Runs around a handler: it may answer the request itself, or call next
+ * and change the response
+ * @template C Per-request context, such as the client IP
+ */
+export type Middleware<C> = (
+  request: Request,
+  context: C,
+  next: () => Promise<Response>,
+) => Promise<Response>;
+
+/**
+ * One entry in the routing table
+ */
+export interface Route<C> {
+  /** Exact path, or a prefix ending in "/*" such as "/img/*" */
+  path: string;
+  /** Methods the route allows, such as ["POST", "OPTIONS"] */
+  methods: string[];
+  /** Middleware, outermost first */
+  middleware?: Middleware<C>[];
+  handler: Handler<C>;
+}
+
+/**
+ * Responses for requests no route handles
+ */
+export interface RouterOptions<C> {
+  /** Response for paths without a route */
+  notFound: Handler<C>;
+  /**
+   * Response for a method the route does not allow; it is sent with status
+   * 405 and an Allow header
+   */
+  methodNotAllowed: Handler<C>;
+}
+
+/**
+ * Wraps a handler in middleware.
+ * @param middleware The middleware, outermost first.
+ * @param handler The handler.
+ * @returns A handler that runs the middleware, then the handler.
+ */
+export function compose<C>(
+  middleware: Middleware<C>[],
+  handler: Handler<C>,
+): Handler<C> {
+  return (request, context) => {
+    const dispatch = (index: number): Promise<Response> =>
+      index === middleware.length
+        ? handler(request, context)
+        : middleware[index](request, context, () => dispatch(index + 1));
+    return dispatch(0);
+  };
+}
+
+/**
+ * Routes requests through a table of routes
+ * @template C Per-request context, such as the client IP
+ */
+export class Router<C> {
+  private readonly routes = new Map<string, Route<C>>();
+  private readonly prefixes: Route<C>[] = [];
+  private readonly middleware: Middleware<C>[] = [];
+
+  /**
+   * Creates a router
+   * @param options Responses for unknown paths and disallowed methods.
+   */
+  constructor(private readonly options: RouterOptions<C>) {}
+
+  /**
+   * Adds middleware that runs for every request, including those no route
+   * handles, outside each route's own middleware
+   * @param middleware The middleware, outermost first.
+   * @returns This router.
+   */
+  use(...middleware: Middleware<C>[]): this {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  /**
+   * Adds a route
+   * @param route The route.
+   * @returns This router.
+   * @throws Error if a route already has the path.
+   */
+  add(route: Route<C>): this {
+    if (this.routes.has(route.path)) {
+      throw new Error(`Duplicate route: ${route.path}`);
+    }
+    this.routes.set(route.path, route);
+    if (route.path.endsWith("/*")) {
+      this.prefixes.push(route);
+      // Longest prefix first
+      this.prefixes.sort((a, b) => b.path.length - a.path.length);
+    }
+    return this;
+  }
+
+  /**
+   * Finds the route for a path: an exact match, else the longest matching
+   * prefix
+   * @param path The request path.
+   * @returns The route, or undefined if there is none.
+   */
+  match(path: string): Route<C> | undefined {
+    const exact = this.routes.get(path);
+    if (exact && !exact.path.endsWith("/*")) {
+      return exact;
+    }
+    return this.prefixes.find((route) =>
+      path.startsWith(route.path.slice(0, -1))
+    );
+  }
+
+  /**
+   * Handles a request
+   * @param request The incoming request.
+   * @param path The path to route, which may differ from the URL's, such
+   * as a versioned API path resolved to its route.
+   * @param context Per-request context passed to middleware and handlers.
+   * @returns The response.
+   */
+  handle(request: Request, path: string, context: C): Promise<Response> {
+    const route = this.match(path);
+    let handler: Handler<C>;
+    if (!route) {
+      handler = this.options.notFound;
+    } else if (!route.methods.includes(request.method)) {
+      handler = async (request, context) => {
+        const response = await this.options.methodNotAllowed(
+          request,
+          context,
+        );
+        const headers = new Headers(response.headers);
+        headers.set("Allow", route.methods.join(", "));
+        return new Response(response.body, { status: 405, headers });
+      };
+    } else {
+      handler = compose(route.middleware ?? [], route.handler);
+    }
+    return compose(this.middleware, handler)(request, context);
+  }
+}
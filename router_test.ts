@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Tests for the table-driven router
+ * @description Routes match exact paths before prefixes, middleware runs in
+ * order around handlers, and disallowed methods get 405 with an Allow header
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { compose, type Middleware, Router } from "./router.ts";
+
+/** Records the order middleware and handlers run in */
+type Trace = string[];
+
+function text(body: string, status = 200): Promise<Response> {
+  return Promise.resolve(new Response(body, { status }));
+}
+
+function tag(name: string): Middleware<Trace> {
+  return async (_request, trace, next) => {
+    trace.push(`${name}:before`);
+    const response = await next();
+    trace.push(`${name}:after`);
+    return response;
+  };
+}
+
+function createRouter(): Router<Trace> {
+  return new Router<Trace>({
+    notFound: () => text("not found", 404),
+    methodNotAllowed: () => text("method not allowed"),
+  });
+}
+
+function request(method = "GET"): Request {
+  return new Request("http://localhost/", { method });
+}
+
+Deno.test("Router - compose runs middleware outermost first", async () => {
+  const trace: Trace = [];
+  const handler = compose([tag("outer"), tag("inner")], (_request, trace) => {
+    trace.push("handler");
+    return text("ok");
+  });
+
+  assertEquals(await (await handler(request(), trace)).text(), "ok");
+  assertEquals(trace, [
+    "outer:before",
+    "inner:before",
+    "handler",
+    "inner:after",
+    "outer:after",
+  ]);
+});
+
+Deno.test("Router - middleware can answer without the handler", async () => {
+  const trace: Trace = [];
+  const deny: Middleware<Trace> = () => text("denied", 401);
+  const handler = compose([deny], (_request, trace) => {
+    trace.push("handler");
+    return text("ok");
+  });
+
+  assertEquals((await handler(request(), trace)).status, 401);
+  assertEquals(trace, []);
+});
+
+Deno.test("Router - exact paths win over prefixes, longest prefix first", async () => {
+  const router = createRouter()
+    .add({ path: "/img/*", methods: ["GET"], handler: () => text("img") })
+    .add({
+      path: "/img/icons/*",
+      methods: ["GET"],
+      handler: () => text("icons"),
+    })
+    .add({
+      path: "/img/logo.svg",
+      methods: ["GET"],
+      handler: () => text("logo"),
+    });
+
+  for (
+    const [path, body] of [
+      ["/img/logo.svg", "logo"],
+      ["/img/icons/a.svg", "icons"],
+      ["/img/other.svg", "img"],
+      ["/images/a.svg", "not found"],
+    ]
+  ) {
+    const response = await router.handle(request(), path, []);
+    assertEquals(await response.text(), body, path);
+  }
+});
+
+Deno.test("Router - other methods get 405 with an Allow header", async () => {
+  const trace: Trace = [];
+  const router = createRouter().add({
+    path: "/api/encrypt",
+    methods: ["POST", "OPTIONS"],
+    middleware: [tag("route")],
+    handler: () => text("ok"),
+  });
+
+  const response = await router.handle(request("GET"), "/api/encrypt", trace);
+  assertEquals(response.status, 405);
+  assertEquals(response.headers.get("Allow"), "POST, OPTIONS");
+  assertEquals(await response.text(), "method not allowed");
+  // Route middleware only runs for allowed methods
+  assertEquals(trace, []);
+});
+
+Deno.test("Router - global middleware runs for every request", async () => {
+  const trace: Trace = [];
+  const router = createRouter()
+    .use(tag("global"))
+    .add({
+      path: "/",
+      methods: ["GET"],
+      middleware: [tag("route")],
+      handler: () => text("ok"),
+    });
+
+  await router.handle(request(), "/", trace);
+  await router.handle(request(), "/missing", trace);
+  assertEquals(trace, [
+    "global:before",
+    "route:before",
+    "route:after",
+    "global:after",
+    "global:before",
+    "global:after",
+  ]);
+});
+
+Deno.test("Router - duplicate paths are rejected", () => {
+  const router = createRouter().add({
+    path: "/",
+    methods: ["GET"],
+    handler: () => text("ok"),
+  });
+
+  assertThrows(
+    () => router.add({ path: "/", methods: ["GET"], handler: () => text("") }),
+    Error,
+    "Duplicate route: /",
+  );
+});
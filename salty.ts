@@ -3,11 +3,20 @@
  *
  * This file contains the core cryptographic functions for Salty.
  * It uses the Web Cryptography API (SubtleCrypto) for secure operations
- * like PBKDF2 for key derivation and AES-GCM for encryption/decryption.
+ * like PBKDF2 for key derivation and AES-GCM for encryption/decryption,
+ * and a pure TypeScript Argon2id (argon2.ts) as the default KDF.
  *
  * Fixed the basE91 encoding/decoding functions for proper compatibility.
  */
 
+import { argon2id } from "./argon2.ts";
+import {
+  type ArmorOptions,
+  formatArmor,
+  maskArmor,
+  parseArmor,
+} from "./armor.ts";
+
 // Fixed basE91 encoding table - using the standard basE91 character set
 const b91_enctab = [
   "A",
@@ -127,24 +136,132 @@ export function hexToUint8Array(hexString: string): Uint8Array {
   return Uint8Array.from(matches.map((byte) => parseInt(byte, 16)));
 }
 
+/**
+ * How base91_decode treats characters outside the basE91 alphabet
+ */
+export enum SaltyDecodeMode {
+  /** Skip them silently (the historical behaviour) */
+  SKIP = "skip",
+  /** Ignore whitespace and armor lines; reject anything else */
+  LENIENT = "lenient",
+  /** Reject every character outside the alphabet, whitespace included */
+  STRICT = "strict",
+}
+
+/**
+ * The first character that made a strict or lenient decode fail
+ */
+export interface SaltyInvalidSymbol {
+  /** The offending character */
+  character: string;
+  /** Offset in the input, in UTF-16 code units (0-based) */
+  position: number;
+  /** Line number (1-based) */
+  line: number;
+  /** Column within the line, in UTF-16 code units (1-based) */
+  column: number;
+}
+
+/**
+ * Options for base91_decode
+ */
+export interface SaltyDecodeOptions {
+  /** Handling of characters outside the alphabet (defaults to skipping) */
+  mode?: SaltyDecodeMode;
+  /** Called with the first invalid character when decoding rejects one */
+  onInvalidSymbol?: (symbol: SaltyInvalidSymbol) => void;
+}
+
+/**
+ * Collects the basE91 symbols of the input, stopping at the first
+ * character the mode does not allow.
+ * @param data The basE91 encoded string.
+ * @param mode LENIENT or STRICT.
+ * @returns The symbols, or the first invalid character.
+ */
+function scanBase91(
+  data: string,
+  mode: SaltyDecodeMode,
+): { symbols: string } | { invalid: SaltyInvalidSymbol } {
+  let symbols = "";
+  let offset = 0;
+
+  // Armor lines become spaces, so lenient mode skips them like whitespace
+  const lines = (mode === SaltyDecodeMode.LENIENT ? maskArmor(data) : data)
+    .split("\n");
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    for (let column = 0; column < line.length; column++) {
+      const character = line[column];
+      if (b91_dectab[character] !== undefined) {
+        symbols += character;
+      } else if (
+        mode === SaltyDecodeMode.STRICT || !/\s/.test(character)
+      ) {
+        return {
+          invalid: {
+            character: String.fromCodePoint(line.codePointAt(column)!),
+            position: offset + column,
+            line: index + 1,
+            column: column + 1,
+          },
+        };
+      }
+    }
+
+    // Strict mode rejects the newline itself
+    if (mode === SaltyDecodeMode.STRICT && index < lines.length - 1) {
+      return {
+        invalid: {
+          character: "\n",
+          position: offset + line.length,
+          line: index + 1,
+          column: line.length + 1,
+        },
+      };
+    }
+    offset += line.length + 1;
+  }
+  return { symbols };
+}
+
 /**
  * Decodes a basE91 encoded string into a Uint8Array.
  * Fixed implementation based on the original basE91 specification.
+ *
+ * By default, characters outside the alphabet are skipped, so a paste
+ * mangled by smart quotes decodes to garbage. LENIENT mode only skips
+ * whitespace and armor lines, and STRICT mode skips nothing; both reject
+ * anything else and report where it is through options.onInvalidSymbol.
  * @param data The basE91 encoded string.
+ * @param options Decoding mode and error callback.
  * @returns The decoded Uint8Array, or null if decoding fails.
  */
-export function base91_decode(data: string): Uint8Array | null {
+export function base91_decode(
+  data: string,
+  options: SaltyDecodeOptions = {},
+): Uint8Array | null {
   if (!data || typeof data !== "string") {
     return null;
   }
 
+  let symbols = data;
+  if (options.mode && options.mode !== SaltyDecodeMode.SKIP) {
+    const scanned = scanBase91(data, options.mode);
+    if ("invalid" in scanned) {
+      options.onInvalidSymbol?.(scanned.invalid);
+      return null;
+    }
+    symbols = scanned.symbols;
+  }
+
   let v = -1;
   let b = 0;
   let n = 0;
   const output: number[] = [];
 
-  for (let i = 0; i < data.length; i++) {
-    const c = b91_dectab[data[i]];
+  for (let i = 0; i < symbols.length; i++) {
+    const c = b91_dectab[symbols[i]];
     if (c === undefined) {
       // Skip invalid characters
       continue;
@@ -218,121 +335,3446 @@ export function base91_encode(data: Uint8Array): string {
 }
 
 /**
- * Derives a cryptographic key from a passphrase using PBKDF2.
- * @param key The passphrase string.
- * @param saltHex The hexadecimal string representation of the salt.
- * @returns The derived CryptoKey.
+ * Text encodings for ciphertexts
  */
-export async function salty_key(
-  key: string,
-  saltHex: string,
-): Promise<CryptoKey> {
-  const enc = new TextEncoder();
-  const password = enc.encode(key);
-  const salt = hexToUint8Array(saltHex); // Convert hex salt to Uint8Array
-
-  const iterations = 600000; // Number of PBKDF2 iterations (high for security)
-  const hash = "SHA-512"; // Hashing algorithm
-  const keyLen = 32; // Key length in bytes (256 bits for AES-GCM)
+export enum SaltyEncoding {
+  /** basE91: the most compact, but uses quotes, angle brackets and braces */
+  BASE91 = "base91",
+  /** base64url without padding (RFC 4648): safe in URLs, CSV and shells */
+  BASE64URL = "base64url",
+  /** Lowercase hexadecimal */
+  HEX = "hex",
+  /**
+   * Bech32-style words: "salty1" then dash-separated groups of an
+   * unambiguous 32-character alphabet, with a checksum that catches typos
+   */
+  BECH32 = "bech32",
+}
 
-  // Import the password as a raw key for PBKDF2
-  const passwordKey = await crypto.subtle.importKey(
-    "raw",
-    password,
-    { name: "PBKDF2" },
-    false, // not extractable
-    ["deriveBits", "deriveKey"], // usage
+/**
+ * Encodes bytes as base64url without padding.
+ * @param data The bytes to encode.
+ * @returns The base64url string.
+ */
+export function base64url_encode(data: Uint8Array): string {
+  let binary = "";
+  // Chunked, since spreading a large array overflows the call stack
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(
+    /=+$/,
+    "",
   );
+}
 
-  // Derive the actual encryption key using PBKDF2
-  const derivedKey = await crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: salt,
-      iterations: iterations,
-      hash: hash,
-    },
-    passwordKey,
-    { name: "AES-GCM", length: keyLen * 8 }, // AES-GCM with 256-bit key
-    true, // extractable
-    ["encrypt", "decrypt"], // usage
+/**
+ * Decodes a base64url string, with or without padding.
+ * @param data The base64url string.
+ * @returns The decoded bytes, or null if the string is not base64url.
+ */
+export function base64url_decode(data: string): Uint8Array | null {
+  const unpadded = data.replace(/=+$/, "");
+  if (!/^[A-Za-z0-9_-]*$/.test(unpadded) || unpadded.length % 4 === 1) {
+    return null;
+  }
+  const binary = atob(
+    unpadded.replace(/-/g, "+").replace(/_/g, "/") +
+      "=".repeat((4 - unpadded.length % 4) % 4),
   );
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
 
-  return derivedKey;
+/**
+ * Encodes bytes as lowercase hexadecimal.
+ * @param data The bytes to encode.
+ * @returns The hex string.
+ */
+export function hex_encode(data: Uint8Array): string {
+  return Array.from(data, (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
 /**
- * Encrypts a message using AES-GCM with a derived cryptographic key.
- * @param message The plaintext message to encrypt.
- * @param cryptoKey The CryptoKey derived from the passphrase.
- * @returns The basE91 encoded ciphertext.
+ * Decodes a hexadecimal string of either case. Unlike hexToUint8Array, it
+ * rejects odd lengths and non-hex characters.
+ * @param data The hex string.
+ * @returns The decoded bytes, or null if the string is not hex.
  */
-export async function salty_encrypt(
-  message: string,
-  cryptoKey: CryptoKey,
-): Promise<string> {
-  const enc = new TextEncoder();
-  const data = enc.encode(message); // Encode message to Uint8Array
+export function hex_decode(data: string): Uint8Array | null {
+  if (!/^(?:[0-9a-fA-F]{2})*$/.test(data)) {
+    return null;
+  }
+  return Uint8Array.from(
+    { length: data.length / 2 },
+    (_, i) => parseInt(data.slice(i * 2, i * 2 + 2), 16),
+  );
+}
 
-  // Generate a random Initialization Vector (IV)
-  const iv = crypto.getRandomValues(new Uint8Array(12)); // AES-GCM uses 12-byte IV
+/** Bech32 alphabet, without 1, b, i and o */
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
 
-  // Encrypt the data
-  const ciphertext = await crypto.subtle.encrypt(
-    {
-      name: "AES-GCM",
-      iv: iv,
-      tagLength: 128, // Authentication tag length in bits
-    },
-    cryptoKey,
-    data,
-  );
+/** Human-readable prefix of Bech32-encoded ciphertexts */
+const BECH32_PREFIX = "salty";
 
-  // Concatenate IV and ciphertext for storage/transmission
-  const fullCiphertext = new Uint8Array(iv.byteLength + ciphertext.byteLength);
-  fullCiphertext.set(iv, 0);
-  fullCiphertext.set(new Uint8Array(ciphertext), iv.byteLength);
+/** Bech32m checksum constant (BIP 350) */
+const BECH32M_CONST = 0x2bc830a3;
 
-  // Encode the combined IV+ciphertext using basE91
-  return base91_encode(fullCiphertext);
+/** Characters per dash-separated word in Bech32 output */
+const BECH32_WORD_LENGTH = 5;
+
+/**
+ * Computes the Bech32 BCH checksum polynomial.
+ */
+function bech32Polymod(values: number[]): number {
+  const generator = [
+    0x3b6a57b2,
+    0x26508e6d,
+    0x1ea119fa,
+    0x3d4233dd,
+    0x2a1462b3,
+  ];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        checksum ^= generator[i];
+      }
+    }
+  }
+  return checksum;
 }
 
 /**
- * Decrypts a basE91 encoded ciphertext using AES-GCM with a derived cryptographic key.
- * @param encrypted The basE91 encoded ciphertext.
- * @param cryptoKey The CryptoKey derived from the passphrase.
- * @returns The decrypted plaintext message, or null if decryption fails.
+ * Expands the prefix for checksumming, as in BIP 173.
  */
-export async function salty_decrypt(
-  encrypted: string,
-  cryptoKey: CryptoKey,
-): Promise<string | null> {
-  const decoded = base91_decode(encrypted); // Decode from basE91
+function bech32PrefixValues(): number[] {
+  const codes = Array.from(BECH32_PREFIX, (c) => c.charCodeAt(0));
+  return [...codes.map((c) => c >> 5), 0, ...codes.map((c) => c & 31)];
+}
 
-  // Check minimum length: IV (12 bytes) + GCM Tag (16 bytes)
-  if (!decoded || decoded.length < 12 + 16) {
-    return null; // Invalid ciphertext length
+/**
+ * Regroups bits, as in BIP 173.
+ * @returns The regrouped values, or null if padding bits are invalid.
+ */
+function convertBits(
+  data: ArrayLike<number>,
+  from: number,
+  to: number,
+  pad: boolean,
+): number[] | null {
+  let acc = 0;
+  let bits = 0;
+  const output: number[] = [];
+  const mask = (1 << to) - 1;
+  for (let i = 0; i < data.length; i++) {
+    acc = ((acc << from) | data[i]) & 0xffffff;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      output.push((acc >> bits) & mask);
+    }
+  }
+  if (pad && bits > 0) {
+    output.push((acc << (to - bits)) & mask);
+  } else if (!pad && (bits >= from || ((acc << (to - bits)) & mask))) {
+    return null;
   }
+  return output;
+}
 
-  const iv = decoded.slice(0, 12); // Extract IV
-  const ciphertextWithTag = decoded.slice(12); // Extract ciphertext with authentication tag
+/**
+ * Encodes bytes as Bech32-style words with a Bech32m checksum. Unlike
+ * Bech32 addresses, there is no length limit, so past 89 characters typos
+ * are detected with high probability rather than guaranteed.
+ * @param data The bytes to encode.
+ * @returns "salty1" followed by dash-separated words.
+ */
+export function bech32_encode(data: Uint8Array): string {
+  const values = convertBits(data, 8, 5, true)!;
+  const polymod = bech32Polymod([
+    ...bech32PrefixValues(),
+    ...values,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+  ]) ^ BECH32M_CONST;
+  for (let i = 0; i < 6; i++) {
+    values.push((polymod >>> (5 * (5 - i))) & 31);
+  }
 
-  try {
-    // Decrypt the data
-    const decryptedBuffer = await crypto.subtle.decrypt(
-      {
-        name: "AES-GCM",
-        iv: iv,
-        tagLength: 128,
-      },
-      cryptoKey,
-      ciphertextWithTag,
-    );
+  const chars = values.map((v) => BECH32_CHARSET[v]).join("");
+  const words = chars.match(new RegExp(`.{1,${BECH32_WORD_LENGTH}}`, "g"))!;
+  return `${BECH32_PREFIX}1${words.join("-")}`;
+}
 
-    // Decode the decrypted buffer back to a string
-    return new TextDecoder().decode(decryptedBuffer);
-  } catch (_e) {
-    // e.g., incorrect key, corrupted ciphertext
+/**
+ * Decodes Bech32-style words, ignoring case, dashes and whitespace.
+ * @param data The encoded string.
+ * @returns The decoded bytes, or null if the prefix, characters or
+ * checksum are invalid.
+ */
+export function bech32_decode(data: string): Uint8Array | null {
+  const compact = data.replace(/[\s-]+/g, "").toLowerCase();
+  if (!compact.startsWith(`${BECH32_PREFIX}1`)) {
+    return null;
+  }
+
+  const values: number[] = [];
+  for (const c of compact.slice(BECH32_PREFIX.length + 1)) {
+    const value = BECH32_CHARSET.indexOf(c);
+    if (value < 0) {
+      return null;
+    }
+    values.push(value);
+  }
+  if (
+    values.length < 6 ||
+    bech32Polymod([...bech32PrefixValues(), ...values]) !== BECH32M_CONST
+  ) {
     return null;
   }
+
+  const bytes = convertBits(values.slice(0, -6), 5, 8, false);
+  return bytes ? Uint8Array.from(bytes) : null;
+}
+
+/** Armor label for messages */
+const MESSAGE_LABEL = "SALTY MESSAGE";
+
+/**
+ * Guesses the encoding of a ciphertext from its characters. Versioned
+ * envelopes in basE91 always start with "&", which the other encodings
+ * never use, so only legacy messages are ambiguous, with negligible
+ * probability.
+ * @param text The encoded ciphertext, without armor.
+ * @returns The detected encoding (basE91 when nothing else fits).
+ */
+export function detectEncoding(text: string): SaltyEncoding {
+  const compact = text.replace(/\s+/g, "");
+  if (/^salty1[-qpzry9x8gf2tvdw0s3jn54khce6mua7l]+$/i.test(compact)) {
+    return SaltyEncoding.BECH32;
+  }
+  if (/^(?:[0-9a-fA-F]{2})+$/.test(compact)) {
+    return SaltyEncoding.HEX;
+  }
+  if (/^[A-Za-z0-9_-]+$/.test(compact) && compact.length % 4 !== 1) {
+    return SaltyEncoding.BASE64URL;
+  }
+  return SaltyEncoding.BASE91;
+}
+
+/**
+ * Finds the encoding of a possibly armored ciphertext: the armor's Encoding
+ * header if present, else the encoding detected from the characters.
+ * @param text The encoded ciphertext.
+ * @returns The encoding name, which may be unknown if taken from a header.
+ */
+function encodingOf(text: string): SaltyEncoding {
+  const armored = parseArmor(text, MESSAGE_LABEL);
+  return armored?.headers.encoding as SaltyEncoding | undefined ??
+    detectEncoding(armored ? armored.body : text);
+}
+
+/**
+ * Encodes ciphertext bytes as text.
+ * @param data The ciphertext bytes.
+ * @param encoding The encoding (defaults to basE91).
+ * @returns The encoded ciphertext.
+ */
+export function encodeCiphertext(
+  data: Uint8Array,
+  encoding: SaltyEncoding = SaltyEncoding.BASE91,
+): string {
+  switch (encoding) {
+    case SaltyEncoding.BASE64URL:
+      return base64url_encode(data);
+    case SaltyEncoding.HEX:
+      return hex_encode(data);
+    case SaltyEncoding.BECH32:
+      return bech32_encode(data);
+    default:
+      return base91_encode(data);
+  }
+}
+
+/**
+ * Decodes a ciphertext in any supported encoding, optionally armored. The
+ * encoding comes from the argument, else the armor's Encoding header, else
+ * the character set.
+ * @param text The encoded ciphertext.
+ * @param encoding The encoding, if known.
+ * @param options basE91 decoding mode and error callback.
+ * @returns The ciphertext bytes, or null if decoding fails or the armor's
+ * checksum does not match.
+ */
+export function decodeCiphertext(
+  text: string,
+  encoding?: SaltyEncoding,
+  options: SaltyDecodeOptions = {},
+): Uint8Array | null {
+  if (!text || typeof text !== "string") {
+    return null;
+  }
+
+  const armored = parseArmor(text, MESSAGE_LABEL);
+  if (armored?.checksumValid === false) {
+    return null;
+  }
+  const body = armored?.body ?? text;
+  const chosen = encoding ?? encodingOf(text);
+  const compact = body.replace(/\s+/g, "");
+  switch (chosen) {
+    case SaltyEncoding.BASE91:
+      // Lenient and strict decoding report positions in the text as given,
+      // so they get the armor too; lenient mode skips it
+      return base91_decode(
+        options.mode && options.mode !== SaltyDecodeMode.SKIP ? text : body,
+        options,
+      );
+    case SaltyEncoding.BASE64URL:
+      return base64url_decode(compact);
+    case SaltyEncoding.HEX:
+      return hex_decode(compact);
+    case SaltyEncoding.BECH32:
+      return bech32_decode(compact);
+    default:
+      // Unknown Encoding header
+      return null;
+  }
+}
+
+/**
+ * Options for salty_armor
+ */
+export interface SaltyArmorOptions
+  extends Pick<ArmorOptions, "lineWidth" | "checksum"> {
+  /** A Comment header, such as who the message is for */
+  comment?: string;
+}
+
+/**
+ * Armors a ciphertext as a SALTY MESSAGE block for email and chat, with
+ * Version and Encoding headers, wrapped lines and a CRC-24 checksum line.
+ * salty_decrypt accepts the block as it is.
+ * @param encrypted The ciphertext from salty_encrypt, in any encoding.
+ * @param options Comment, line width and checksum.
+ * @returns The armored block.
+ * @throws Error if the ciphertext cannot be decoded or the comment spans
+ * several lines
+ */
+export function salty_armor(
+  encrypted: string,
+  options: SaltyArmorOptions = {},
+): string {
+  const encoding = encodingOf(encrypted);
+  const body = parseArmor(encrypted, MESSAGE_LABEL)?.body ?? encrypted;
+  const decoded = decodeCiphertext(encrypted);
+  if (!decoded) {
+    throw new Error("Invalid ciphertext");
+  }
+
+  return formatArmor(MESSAGE_LABEL, body, {
+    headers: {
+      // Legacy header-less messages have no format version
+      version: decoded[0] === SALTY_MAGIC ? String(decoded[1]) : undefined,
+      encoding,
+      comment: options.comment,
+    },
+    lineWidth: options.lineWidth,
+    checksum: options.checksum,
+  });
+}
+
+/** Leading byte of every versioned Salty envelope ("S") */
+const SALTY_MAGIC = 0x53;
+
+/** Current envelope format version written by salty_encrypt */
+export const SALTY_FORMAT_VERSION = 1;
+
+/** Default number of PBKDF2 iterations (high for security) */
+export const PBKDF2_ITERATIONS = 600000;
+
+/**
+ * Upper bound on PBKDF2 iterations accepted from an envelope header, so a
+ * crafted message cannot make the decrypting side spin indefinitely
+ */
+const MAX_PBKDF2_ITERATIONS = 10000000;
+
+/** Default Argon2id memory size in KiB (19 MiB) */
+export const ARGON2_MEMORY_KIB = 19456;
+
+/** Default Argon2id time cost (passes over memory) */
+export const ARGON2_ITERATIONS = 2;
+
+/** Default Argon2id parallelism (lanes) */
+export const ARGON2_PARALLELISM = 1;
+
+/** Upper bound on Argon2id memory accepted from an envelope header (256 MiB) */
+export const MAX_ARGON2_MEMORY_KIB = 262144;
+
+/** Upper bound on Argon2id time cost accepted from an envelope header */
+export const MAX_ARGON2_ITERATIONS = 10;
+
+/** Upper bound on Argon2id parallelism accepted from an envelope header */
+export const MAX_ARGON2_PARALLELISM = 16;
+
+/** Length in bytes of the random salt generated for each message */
+export const SALT_LENGTH = 16;
+
+/** AES-GCM key length in bytes */
+const KEY_LENGTH = 32;
+
+/** AES-GCM IV length in bytes */
+const IV_LENGTH = 12;
+
+/** AES-GCM authentication tag length in bytes */
+const TAG_LENGTH = 16;
+
+/**
+ * Key derivation function identifiers recorded in the envelope header
+ */
+export enum SaltyKdf {
+  /** Key supplied directly, no derivation parameters */
+  NONE = 0x00,
+  /** PBKDF2 with HMAC-SHA-512 */
+  PBKDF2_SHA512 = 0x01,
+  /** Argon2id version 1.3 (RFC 9106) */
+  ARGON2ID = 0x02,
+}
+
+/**
+ * Compression applied before encryption. Compression makes the ciphertext
+ * length depend on the content, so it must not be used when an attacker can
+ * influence part of a message that also holds a secret (CRIME/BREACH).
+ */
+export enum SaltyCompression {
+  /** No compression */
+  NONE = "none",
+  /** zlib-wrapped DEFLATE */
+  DEFLATE = "deflate",
+  /** gzip-wrapped DEFLATE */
+  GZIP = "gzip",
+}
+
+/**
+ * Default cap on the decompressed size of a message (64 MiB), so a small
+ * ciphertext cannot expand into an unbounded allocation
+ */
+export const MAX_DECOMPRESSED_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Cipher identifiers recorded in the envelope header
+ */
+export enum SaltyCipher {
+  /** AES-256 in Galois/Counter Mode with a 128-bit tag */
+  AES_256_GCM = 0x01,
+}
+
+/**
+ * Feature flags recorded in the envelope header
+ */
+export enum SaltyFlag {
+  /** Plaintext starts with an encoded filename and MIME type */
+  METADATA = 0x01,
+  /** Body is a sequence of chunks (see salty_encrypt_stream) */
+  STREAM = 0x02,
+  /** Plaintext ends with a 0x80 marker and zero padding */
+  PADDED = 0x04,
+  /** Plaintext is compressed (see SaltyCompression) */
+  COMPRESSED = 0x08,
+  /** Content key is wrapped per recipient (see salty_encrypt_recipients) */
+  RECIPIENTS = 0x10,
+  /** Content key is agreed with a public key (see salty_encrypt_public) */
+  PUBLIC_KEY = 0x20,
+  /** Header is followed by a key check value (see SaltyDecryptFailure) */
+  KEY_CHECK = 0x40,
+}
+
+/** All flags this version understands; others are rejected */
+const KNOWN_FLAGS = SaltyFlag.METADATA | SaltyFlag.STREAM | SaltyFlag.PADDED |
+  SaltyFlag.COMPRESSED | SaltyFlag.RECIPIENTS | SaltyFlag.PUBLIC_KEY |
+  SaltyFlag.KEY_CHECK;
+
+/** Flags for messages whose layout differs from the basic envelope */
+const LAYOUT_FLAGS = SaltyFlag.STREAM | SaltyFlag.RECIPIENTS |
+  SaltyFlag.PUBLIC_KEY;
+
+/** Length of the key check value stored after the header */
+const KEY_CHECK_LENGTH = 4;
+
+/** HKDF info for key check values, separating them from other key uses */
+const KEY_CHECK_HKDF_INFO = "Salty key check value";
+
+/**
+ * Why salty_decrypt failed, as reported to SaltyDecryptOptions.onFailure
+ */
+export enum SaltyDecryptFailure {
+  /** Cannot be decoded, or too short to be a Salty message */
+  MALFORMED = "malformed",
+  /** The armor's checksum line does not match: the text was changed */
+  CHECKSUM_MISMATCH = "checksum-mismatch",
+  /** The key check value does not match: the key or passphrase is wrong */
+  WRONG_KEY = "wrong-key",
+  /**
+   * The key is right but authentication failed: the ciphertext is corrupted
+   * or truncated, or the context does not match
+   */
+  CORRUPTED = "corrupted",
+  /**
+   * Deriving the key would take more work than options.maxKdfCost allows,
+   * so the passphrase was never tried
+   */
+  TOO_COSTLY = "too-costly",
+  /**
+   * Wrong key or corrupted data; the message carries no key check value to
+   * tell them apart (legacy, multi-recipient and public-key messages)
+   */
+  UNKNOWN = "unknown",
+}
+
+/** Most recipients a message can carry (the count is a single byte) */
+export const MAX_RECIPIENTS = 255;
+
+/**
+ * Length-hiding padding schemes. The scheme only decides how much padding
+ * is added; it is not recorded, since padding is stripped the same way for
+ * every scheme, but salty_rekey reads it back from the padded size.
+ */
+export enum SaltyPadding {
+  /** No padding; the ciphertext reveals the exact plaintext length */
+  NONE = "none",
+  /** Padmé: at most 12% overhead, leaks O(log log n) bits of the length */
+  PADME = "padme",
+  /** Next power of two: up to 100% overhead, leaks O(log log n) bits */
+  POWER_OF_TWO = "power-of-two",
+}
+
+/** Maximum UTF-8 length in bytes of a filename or MIME type */
+const MAX_METADATA_FIELD_LENGTH = 255;
+
+/**
+ * Optional file details carried with encrypted bytes. They are encrypted
+ * and authenticated together with the content, but come from the sender and
+ * should be treated as untrusted input when decrypting.
+ */
+export interface SaltyFileMetadata {
+  /** Original filename */
+  filename?: string;
+  /** MIME type of the content */
+  mimeType?: string;
+}
+
+/**
+ * Result of salty_decrypt_bytes
+ */
+export interface SaltyDecryptedBytes {
+  /** Decrypted content */
+  data: Uint8Array;
+  /** File details, empty when the message carried none */
+  metadata: SaltyFileMetadata;
+}
+
+/**
+ * Parameters used to derive a CryptoKey, as recorded in the envelope header
+ */
+export interface SaltyKeyParams {
+  /** Key derivation function */
+  kdf: SaltyKdf;
+  /** Iteration count or Argon2id time cost (0 when no KDF was used) */
+  iterations: number;
+  /** Argon2id memory size in KiB (0 for other KDFs) */
+  memory: number;
+  /** Argon2id parallelism (0 for other KDFs) */
+  parallelism: number;
+  /** Salt bytes (empty when no KDF was used) */
+  salt: Uint8Array;
+}
+
+/**
+ * Key derivation choice for salty_derive_key; omitted costs use the
+ * defaults of the chosen KDF
+ */
+export interface SaltyKdfOptions {
+  /** Key derivation function (defaults to Argon2id) */
+  kdf?: SaltyKdf.PBKDF2_SHA512 | SaltyKdf.ARGON2ID;
+  /** Iteration count or Argon2id time cost */
+  iterations?: number;
+  /** Argon2id memory size in KiB */
+  memory?: number;
+  /** Argon2id parallelism */
+  parallelism?: number;
+}
+
+/**
+ * Most key derivation work salty_decrypt does for a message. Header costs
+ * are otherwise only bounded by the format's limits, and a passphrase is
+ * derived with whatever costs the message asks for; a server decrypting
+ * untrusted messages should cap them near its own encryption costs.
+ */
+export interface SaltyKdfCost {
+  /** Most PBKDF2 iterations */
+  pbkdf2Iterations?: number;
+  /** Most Argon2id memory size in KiB */
+  argon2Memory?: number;
+  /** Most Argon2id time cost */
+  argon2Iterations?: number;
+}
+
+/**
+ * Options for salty_derive_key
+ */
+export interface SaltyDeriveKeyOptions extends SaltyKdfOptions {
+  /** Salt to derive with (defaults to a fresh random salt) */
+  salt?: Uint8Array;
+  /**
+   * Whether crypto.subtle.exportKey may return the raw key (defaults to
+   * false). Only flows that need the key bytes, such as key wrapping,
+   * should opt in.
+   */
+  extractable?: boolean;
+}
+
+/**
+ * Decoded envelope header
+ */
+export interface SaltyHeader extends SaltyKeyParams {
+  /** Envelope format version */
+  version: number;
+  /** Feature flags (see SaltyFlag) */
+  flags: number;
+  /** Cipher used for the body */
+  cipher: SaltyCipher;
+}
+
+/**
+ * A parsed versioned envelope
+ */
+export interface SaltyEnvelope {
+  /** Decoded header fields */
+  header: SaltyHeader;
+  /**
+   * Raw bytes before the IV (the header and any key check value),
+   * authenticated as AES-GCM additional data
+   */
+  headerBytes: Uint8Array;
+  /** Key check value, when the KEY_CHECK flag is set */
+  keyCheck?: Uint8Array;
+  /** AES-GCM initialization vector */
+  iv: Uint8Array;
+  /** Ciphertext including the authentication tag */
+  ciphertext: Uint8Array;
+}
+
+/**
+ * A passphrase-based key derivation function
+ */
+interface SaltyKdfImplementation {
+  /** Default cost parameters */
+  defaults: Omit<SaltyKeyParams, "kdf" | "salt">;
+  /** Checks that cost parameters are within the accepted bounds */
+  validate(params: SaltyKeyParams): boolean;
+  /** Checks that cost parameters are within a caller's cost cap */
+  withinCost(params: SaltyKeyParams, cost: SaltyKdfCost): boolean;
+  /**
+   * Derives raw AES-256 key bytes from the passphrase, reporting progress
+   * if the KDF can
+   */
+  derive(
+    passphrase: string,
+    params: SaltyKeyParams,
+    onProgress?: (fraction: number) => void,
+  ): Uint8Array<ArrayBuffer> | Promise<Uint8Array<ArrayBuffer>>;
+}
+
+/**
+ * Derives raw key bytes for a passphrase outside the calling thread, such
+ * as in a Web Worker (see salty_worker_deriver). It receives parameters
+ * that were already validated.
+ */
+export type SaltyKeyDeriver = (
+  passphrase: string,
+  params: SaltyKeyParams,
+) => Promise<Uint8Array<ArrayBuffer>>;
+
+/**
+ * A cache of passphrase-derived keys that decryption consults before
+ * running the KDF (see key-cache.ts). Cached keys are not extractable.
+ */
+export interface SaltyKeyCache {
+  /**
+   * Returns the key for a passphrase and parameters, calling derive on a
+   * miss
+   */
+  resolve(
+    passphrase: string,
+    params: SaltyKeyParams,
+    derive: () => Promise<CryptoKey>,
+  ): Promise<CryptoKey>;
+}
+
+/**
+ * How deriveKey runs the KDF and what it returns
+ */
+interface DeriveKeyOptions {
+  /** Where to run the KDF (this thread by default) */
+  deriver?: SaltyKeyDeriver;
+  /** Cache to consult before deriving */
+  keyCache?: SaltyKeyCache;
+  /** Whether the key can be exported (defaults to false) */
+  extractable?: boolean;
+}
+
+/**
+ * Derivation parameters of keys produced by salty_key and salty_derive_key,
+ * so that salty_encrypt can describe them in the envelope header
+ */
+const derivedKeyParams = new WeakMap<CryptoKey, SaltyKeyParams>();
+
+/**
+ * Key check values of derived keys, computed while the raw key bytes are
+ * at hand
+ */
+const keyCheckValues = new WeakMap<CryptoKey, Uint8Array>();
+
+/**
+ * Serializes an envelope header.
+ *
+ * Layout (all integers big-endian):
+ * magic(1) | version(1) | flags(1) | kdf(1) | iterations(4) |
+ * [memory(4) | parallelism(1), Argon2id only] |
+ * saltLength(1) | salt(saltLength) | cipher(1)
+ *
+ * @param header The header fields to serialize.
+ * @returns The header bytes.
+ */
+export function encodeEnvelopeHeader(
+  header: SaltyHeader,
+): Uint8Array<ArrayBuffer> {
+  if (header.salt.length > 255) {
+    throw new Error("Salt too long for envelope header");
+  }
+
+  const costLength = header.kdf === SaltyKdf.ARGON2ID ? 5 : 0;
+  const saltOffset = 9 + costLength;
+  const bytes = new Uint8Array(saltOffset + header.salt.length + 1);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = SALTY_MAGIC;
+  bytes[1] = header.version;
+  bytes[2] = header.flags;
+  bytes[3] = header.kdf;
+  view.setUint32(4, header.iterations);
+  if (costLength) {
+    view.setUint32(8, header.memory);
+    bytes[12] = header.parallelism;
+  }
+  bytes[saltOffset - 1] = header.salt.length;
+  bytes.set(header.salt, saltOffset);
+  bytes[saltOffset + header.salt.length] = header.cipher;
+  return bytes;
+}
+
+/**
+ * Parses an envelope header from the start of decoded bytes.
+ * @param data The decoded bytes.
+ * @returns The header and its length, or null if the data has no valid header.
+ */
+function parseHeader(
+  data: Uint8Array,
+): { header: SaltyHeader; headerLength: number } | null {
+  if (data.length < 10 || data[0] !== SALTY_MAGIC) {
+    return null;
+  }
+
+  const version = data[1];
+  const flags = data[2];
+  const kdf: SaltyKdf = data[3];
+  if (version !== SALTY_FORMAT_VERSION || (flags & ~KNOWN_FLAGS) !== 0) {
+    return null;
+  }
+  if (!Object.values(SaltyKdf).includes(kdf)) {
+    return null;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.length);
+  const iterations = view.getUint32(4);
+  const costLength = kdf === SaltyKdf.ARGON2ID ? 5 : 0;
+  if (data.length < 10 + costLength) {
+    return null;
+  }
+  const memory = costLength ? view.getUint32(8) : 0;
+  const parallelism = costLength ? data[12] : 0;
+
+  const saltOffset = 9 + costLength;
+  const saltLength = data[saltOffset - 1];
+  const headerLength = saltOffset + saltLength + 1;
+  if (data.length < headerLength) {
+    return null;
+  }
+
+  const cipher = data[headerLength - 1];
+  if (cipher !== SaltyCipher.AES_256_GCM) {
+    return null;
+  }
+
+  const params: SaltyKeyParams = {
+    kdf,
+    iterations,
+    memory,
+    parallelism,
+    salt: data.slice(saltOffset, saltOffset + saltLength),
+  };
+
+  // KDF parameters must be consistent with the KDF they describe
+  if (kdf === SaltyKdf.NONE) {
+    if (iterations !== 0 || saltLength !== 0) {
+      return null;
+    }
+  } else if (saltLength === 0 || !kdfImplementations[kdf]!.validate(params)) {
+    return null;
+  }
+
+  return { header: { version, flags, cipher, ...params }, headerLength };
+}
+
+/**
+ * Parses a versioned envelope from decoded bytes.
+ * @param data The decoded ciphertext bytes.
+ * @returns The parsed envelope, or null if the data has no valid header.
+ */
+export function parseEnvelope(data: Uint8Array): SaltyEnvelope | null {
+  const parsed = parseHeader(data);
+  // Streams, multi-recipient and public-key messages have their own
+  // layouts, see salty_decrypt_stream, salty_encrypt_recipients_bytes and
+  // salty_encrypt_public_bytes
+  if (!parsed || parsed.header.flags & LAYOUT_FLAGS) {
+    return null;
+  }
+
+  const { header } = parsed;
+  const checkLength = header.flags & SaltyFlag.KEY_CHECK ? KEY_CHECK_LENGTH : 0;
+  const ivOffset = parsed.headerLength + checkLength;
+  if (data.length < ivOffset + IV_LENGTH + TAG_LENGTH) {
+    return null;
+  }
+
+  return {
+    header,
+    headerBytes: data.slice(0, ivOffset),
+    keyCheck: checkLength
+      ? data.slice(parsed.headerLength, ivOffset)
+      : undefined,
+    iv: data.slice(ivOffset, ivOffset + IV_LENGTH),
+    ciphertext: data.slice(ivOffset + IV_LENGTH),
+  };
+}
+
+/**
+ * A recipient's wrapped copy of the content key
+ */
+interface SaltyRecipientSlot {
+  /** Header describing how the recipient's key is derived */
+  header: SaltyHeader;
+  /** Length of the header at the start of bytes */
+  headerLength: number;
+  /** The serialized slot (header || IV || wrapped key) */
+  bytes: Uint8Array;
+}
+
+/**
+ * A parsed multi-recipient envelope
+ */
+interface SaltyRecipientEnvelope extends SaltyEnvelope {
+  /** Recipient slots, in order */
+  recipients: SaltyRecipientSlot[];
+}
+
+/**
+ * Parses a multi-recipient envelope from decoded bytes.
+ *
+ * Layout: header (RECIPIENTS flag, no KDF) | recipientCount(1) | slots |
+ * IV | ciphertext, where each slot is a key header (no flags) | IV(12) |
+ * wrappedKey(48).
+ *
+ * @param data The decoded ciphertext bytes.
+ * @returns The parsed envelope, or null if the data is not one.
+ */
+function parseRecipientEnvelope(
+  data: Uint8Array,
+): SaltyRecipientEnvelope | null {
+  const parsed = parseHeader(data);
+  if (
+    !parsed ||
+    (parsed.header.flags & LAYOUT_FLAGS) !== SaltyFlag.RECIPIENTS ||
+    parsed.header.kdf !== SaltyKdf.NONE
+  ) {
+    return null;
+  }
+
+  const { header, headerLength } = parsed;
+  const count = data[headerLength];
+  if (!count) {
+    return null;
+  }
+
+  const recipients: SaltyRecipientSlot[] = [];
+  let offset = headerLength + 1;
+  for (let i = 0; i < count; i++) {
+    const slot = parseHeader(data.subarray(offset));
+    if (!slot || slot.header.flags !== 0) {
+      return null;
+    }
+    const length = slot.headerLength + IV_LENGTH + KEY_LENGTH + TAG_LENGTH;
+    if (data.length < offset + length) {
+      return null;
+    }
+    recipients.push({
+      header: slot.header,
+      headerLength: slot.headerLength,
+      bytes: data.slice(offset, offset + length),
+    });
+    offset += length;
+  }
+
+  if (data.length < offset + IV_LENGTH + TAG_LENGTH) {
+    return null;
+  }
+
+  return {
+    header,
+    headerBytes: data.slice(0, headerLength),
+    recipients,
+    iv: data.slice(offset, offset + IV_LENGTH),
+    ciphertext: data.slice(offset + IV_LENGTH),
+  };
+}
+
+/**
+ * Derives AES-256 key bytes from a passphrase with PBKDF2-SHA512.
+ * @param key The passphrase string.
+ * @param params The salt and iteration count.
+ * @returns The derived key bytes.
+ */
+async function deriveKeyPbkdf2(
+  key: string,
+  params: SaltyKeyParams,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const enc = new TextEncoder();
+  const password = enc.encode(key);
+
+  const hash = "SHA-512"; // Hashing algorithm
+
+  // Import the password as a raw key for PBKDF2
+  const passwordKey = await crypto.subtle.importKey(
+    "raw",
+    password,
+    { name: "PBKDF2" },
+    false, // not extractable
+    ["deriveBits", "deriveKey"], // usage
+  );
+
+  // Derive the actual encryption key bytes using PBKDF2
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      salt: params.salt.slice(),
+      iterations: params.iterations,
+      hash: hash,
+    },
+    passwordKey,
+    KEY_LENGTH * 8, // 256-bit AES-GCM key
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Derives AES-256 key bytes from a passphrase with Argon2id.
+ * @param key The passphrase string.
+ * @param params The salt and Argon2id cost parameters.
+ * @param onProgress Called after each memory slice (optional).
+ * @returns The derived key bytes.
+ */
+function deriveKeyArgon2id(
+  key: string,
+  params: SaltyKeyParams,
+  onProgress?: (fraction: number) => void,
+): Uint8Array<ArrayBuffer> {
+  return argon2id(new TextEncoder().encode(key), params.salt, {
+    memory: params.memory,
+    iterations: params.iterations,
+    parallelism: params.parallelism,
+    hashLength: KEY_LENGTH,
+    onProgress,
+  });
+}
+
+/**
+ * Supported passphrase KDFs. Adding a KDF means adding an identifier to
+ * SaltyKdf and an entry here; the header, salty_encrypt and salty_decrypt
+ * pick it up from this table.
+ */
+const kdfImplementations: Partial<Record<SaltyKdf, SaltyKdfImplementation>> = {
+  [SaltyKdf.PBKDF2_SHA512]: {
+    defaults: { iterations: PBKDF2_ITERATIONS, memory: 0, parallelism: 0 },
+    validate: (params) =>
+      params.iterations >= 1 &&
+      params.iterations <= MAX_PBKDF2_ITERATIONS &&
+      params.memory === 0 &&
+      params.parallelism === 0,
+    withinCost: (params, cost) =>
+      params.iterations <= (cost.pbkdf2Iterations ?? Infinity),
+    derive: deriveKeyPbkdf2,
+  },
+  [SaltyKdf.ARGON2ID]: {
+    defaults: {
+      iterations: ARGON2_ITERATIONS,
+      memory: ARGON2_MEMORY_KIB,
+      parallelism: ARGON2_PARALLELISM,
+    },
+    validate: (params) =>
+      params.iterations >= 1 &&
+      params.iterations <= MAX_ARGON2_ITERATIONS &&
+      params.parallelism >= 1 &&
+      params.parallelism <= MAX_ARGON2_PARALLELISM &&
+      params.memory >= 8 * params.parallelism &&
+      params.memory <= MAX_ARGON2_MEMORY_KIB,
+    withinCost: (params, cost) =>
+      params.iterations <= (cost.argon2Iterations ?? Infinity) &&
+      params.memory <= (cost.argon2Memory ?? Infinity),
+    derive: deriveKeyArgon2id,
+  },
+};
+
+/**
+ * Checks whether deriving a key with the given parameters stays within a
+ * cost cap.
+ * @param params The KDF and its cost parameters, as read from a header.
+ * @param cost The cost cap (optional; without one, any cost is accepted).
+ * @returns True if the derivation is within the cap.
+ */
+function withinKdfCost(params: SaltyKeyParams, cost?: SaltyKdfCost): boolean {
+  const implementation = kdfImplementations[params.kdf];
+  return !cost || !implementation || implementation.withinCost(params, cost);
+}
+
+/**
+ * Computes the key check value of raw key bytes: a short HKDF-SHA256 tag
+ * that reveals nothing about the key but lets decryption recognize a wrong
+ * key before trying it.
+ * @param keyBytes The raw AES key.
+ * @returns The key check value.
+ */
+async function computeKeyCheck(
+  keyBytes: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array> {
+  const hkdfKey = await crypto.subtle.importKey(
+    "raw",
+    keyBytes,
+    "HKDF",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode(KEY_CHECK_HKDF_INFO),
+    },
+    hkdfKey,
+    KEY_CHECK_LENGTH * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Looks up or computes the key check value of a key. Keys derived here have
+ * one recorded; other keys only when they are extractable.
+ * @param cryptoKey The AES-GCM key.
+ * @returns The key check value, or null if the key's bytes are unavailable.
+ */
+async function keyCheckOf(cryptoKey: CryptoKey): Promise<Uint8Array | null> {
+  const recorded = keyCheckValues.get(cryptoKey);
+  if (
+    recorded || !cryptoKey.extractable ||
+    cryptoKey.algorithm.name !== "AES-GCM"
+  ) {
+    return recorded ?? null;
+  }
+
+  const keyBytes = new Uint8Array(
+    await crypto.subtle.exportKey("raw", cryptoKey),
+  );
+  try {
+    return await computeKeyCheck(keyBytes);
+  } finally {
+    keyBytes.fill(0);
+  }
+}
+
+/**
+ * Derives raw AES-256 key bytes on the calling thread. This is the work
+ * salty_worker_deriver moves into a worker; kdf-worker.ts calls it there.
+ * @param passphrase The passphrase string.
+ * @param params The KDF, its cost parameters and the salt.
+ * @param onProgress Called with the fraction done: 0 at the start, 1 at
+ * the end, and after each memory slice for Argon2id (optional).
+ * @returns The derived key bytes.
+ * @throws Error if the KDF is unsupported or the parameters are out of range
+ */
+export async function deriveKeyBytes(
+  passphrase: string,
+  params: SaltyKeyParams,
+  onProgress?: (fraction: number) => void,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const implementation = kdfImplementations[params.kdf];
+  if (!implementation) {
+    throw new Error("Unsupported key derivation function");
+  }
+  if (!implementation.validate(params)) {
+    throw new Error("Invalid key derivation parameters");
+  }
+
+  onProgress?.(0);
+  const keyBytes = await implementation.derive(passphrase, params, onProgress);
+  onProgress?.(1);
+  return keyBytes;
+}
+
+/**
+ * Derives a key with the KDF named in the parameters and records the
+ * parameters for the envelope header, along with the key check value.
+ * @param passphrase The passphrase string.
+ * @param params The KDF, its cost parameters and the salt.
+ * @param options Deriver, key cache and extractability (optional).
+ * @returns The derived CryptoKey.
+ */
+async function deriveKey(
+  passphrase: string,
+  params: SaltyKeyParams,
+  options: DeriveKeyOptions = {},
+): Promise<CryptoKey> {
+  const implementation = kdfImplementations[params.kdf];
+  if (!implementation) {
+    throw new Error("Unsupported key derivation function");
+  }
+  if (options.keyCache) {
+    const { keyCache, ...uncached } = options;
+    return await keyCache.resolve(
+      passphrase,
+      params,
+      () => deriveKey(passphrase, params, { ...uncached, extractable: false }),
+    );
+  }
+
+  const keyBytes = options.deriver
+    ? await options.deriver(passphrase, params)
+    : await implementation.derive(passphrase, params);
+  try {
+    const cryptoKey = await crypto.subtle.importKey(
+      "raw",
+      keyBytes,
+      { name: "AES-GCM" },
+      options.extractable ?? false,
+      ["encrypt", "decrypt"],
+    );
+    derivedKeyParams.set(cryptoKey, params);
+    keyCheckValues.set(cryptoKey, await computeKeyCheck(keyBytes));
+    return cryptoKey;
+  } finally {
+    keyBytes.fill(0);
+  }
+}
+
+/**
+ * Derives a cryptographic key from a passphrase using PBKDF2.
+ * Kept for compatibility; new messages default to Argon2id through
+ * salty_derive_key. When no salt is given, a fresh random salt is generated;
+ * it is recorded with the key and written into the envelope by salty_encrypt.
+ * @param key The passphrase string.
+ * @param saltHex The hexadecimal string representation of the salt (optional).
+ * @param iterations The number of PBKDF2 iterations.
+ * @param options Whether the key can be exported (optional; not by
+ * default).
+ * @returns The derived CryptoKey.
+ */
+export async function salty_key(
+  key: string,
+  saltHex?: string,
+  iterations: number = PBKDF2_ITERATIONS,
+  options: Pick<SaltyDeriveKeyOptions, "extractable"> = {},
+): Promise<CryptoKey> {
+  const salt = saltHex === undefined
+    ? crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+    : hexToUint8Array(saltHex); // Convert hex salt to Uint8Array
+  return await deriveKey(key, {
+    kdf: SaltyKdf.PBKDF2_SHA512,
+    iterations,
+    memory: 0,
+    parallelism: 0,
+    salt,
+  }, { extractable: options.extractable });
+}
+
+/**
+ * Derives a cryptographic key from a passphrase with a fresh random salt,
+ * using Argon2id unless another KDF is requested.
+ * @param key The passphrase string.
+ * @param options The KDF, cost parameters, salt and extractability
+ * (optional).
+ * @param deriver Where to run the KDF, such as salty_worker_deriver()
+ * (optional; this thread by default).
+ * @returns The derived CryptoKey.
+ * @throws Error if the cost parameters are out of range
+ */
+export async function salty_derive_key(
+  key: string,
+  options: SaltyDeriveKeyOptions = {},
+  deriver?: SaltyKeyDeriver,
+): Promise<CryptoKey> {
+  const kdf = options.kdf ?? SaltyKdf.ARGON2ID;
+  const implementation = kdfImplementations[kdf];
+  if (!implementation) {
+    throw new Error("Unsupported key derivation function");
+  }
+
+  const params: SaltyKeyParams = {
+    kdf,
+    iterations: options.iterations ?? implementation.defaults.iterations,
+    memory: options.memory ?? implementation.defaults.memory,
+    parallelism: options.parallelism ?? implementation.defaults.parallelism,
+    salt: options.salt ?? crypto.getRandomValues(new Uint8Array(SALT_LENGTH)),
+  };
+  if (!implementation.validate(params)) {
+    throw new Error("Invalid key derivation parameters");
+  }
+
+  return await deriveKey(key, params, {
+    deriver,
+    extractable: options.extractable,
+  });
+}
+
+/**
+ * Looks up the derivation parameters of a key from salty_derive_key or
+ * salty_key.
+ * @param cryptoKey The key.
+ * @returns The KDF, its cost parameters and the salt, or null if the key
+ * was not derived from a passphrase here.
+ */
+export function salty_key_params(cryptoKey: CryptoKey): SaltyKeyParams | null {
+  return derivedKeyParams.get(cryptoKey) ?? null;
+}
+
+/** URL the server serves the key derivation worker from */
+export const KDF_WORKER_URL = "/kdf-worker.ts";
+
+/**
+ * Request posted to the key derivation worker
+ */
+export interface SaltyKdfWorkerRequest {
+  /** The passphrase to derive from */
+  passphrase: string;
+  /** The KDF, its cost parameters and the salt */
+  params: SaltyKeyParams;
+}
+
+/**
+ * Message posted back by the key derivation worker: progress updates,
+ * then either the key bytes or an error
+ */
+export type SaltyKdfWorkerResponse =
+  | { type: "progress"; fraction: number }
+  | { type: "key"; key: Uint8Array<ArrayBuffer> }
+  | { type: "error"; message: string };
+
+/**
+ * Options for salty_worker_deriver
+ */
+export interface SaltyWorkerDeriverOptions {
+  /** URL of the worker module (defaults to KDF_WORKER_URL) */
+  workerUrl?: string | URL;
+  /**
+   * Cancels a running derivation when aborted; the worker is stopped and
+   * the pending call rejects with the signal's reason
+   */
+  signal?: AbortSignal;
+  /**
+   * Called with the fraction done, from 0 to 1. PBKDF2 only reports the
+   * start and the end; Argon2id also reports each memory slice.
+   */
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Creates a key deriver that runs the KDF in a Web Worker, so a slow
+ * derivation does not freeze the page. Each derivation gets its own
+ * worker, which is stopped when it finishes or is cancelled. Where workers
+ * are unavailable, or the worker fails to start, the KDF runs on the
+ * calling thread instead; cancellation then takes effect once it ends.
+ * @param options Worker URL, cancellation signal and progress callback.
+ * @returns A deriver for salty_derive_key and the encrypt and decrypt
+ * options.
+ */
+export function salty_worker_deriver(
+  options: SaltyWorkerDeriverOptions = {},
+): SaltyKeyDeriver {
+  const { signal, onProgress } = options;
+
+  const deriveHere = async (
+    passphrase: string,
+    params: SaltyKeyParams,
+  ): Promise<Uint8Array<ArrayBuffer>> => {
+    const keyBytes = await deriveKeyBytes(passphrase, params, onProgress);
+    if (signal?.aborted) {
+      keyBytes.fill(0);
+      throw signal.reason;
+    }
+    return keyBytes;
+  };
+
+  return (passphrase, params) => {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (typeof Worker === "undefined") {
+      return deriveHere(passphrase, params);
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(options.workerUrl ?? KDF_WORKER_URL, {
+        type: "module",
+      });
+    } catch {
+      // Blocked by a content security policy, for instance
+      return deriveHere(passphrase, params);
+    }
+
+    return new Promise<Uint8Array<ArrayBuffer>>((resolve, reject) => {
+      // The worker reports progress 0 as soon as it runs
+      let started = false;
+      const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener("abort", abort);
+      };
+      const abort = () => {
+        finish();
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", abort, { once: true });
+
+      worker.onmessage = (event: MessageEvent<SaltyKdfWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === "progress") {
+          started = true;
+          onProgress?.(response.fraction);
+          return;
+        }
+        finish();
+        if (response.type === "key") {
+          resolve(response.key);
+        } else {
+          reject(new Error(response.message));
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        finish();
+        if (started) {
+          reject(new Error("Key derivation worker failed"));
+        } else {
+          // The worker module could not be loaded
+          deriveHere(passphrase, params).then(resolve, reject);
+        }
+      };
+
+      const request: SaltyKdfWorkerRequest = { passphrase, params };
+      worker.postMessage(request);
+    });
+  };
+}
+
+/**
+ * Builds the envelope header for a key. The key derivation is described
+ * from the recorded parameters; keys not derived here are recorded as
+ * supplied directly.
+ * @param cryptoKey The encryption key.
+ * @param flags The header flags.
+ * @returns The header bytes.
+ */
+function encodeKeyHeader(
+  cryptoKey: CryptoKey,
+  flags: number,
+): Uint8Array<ArrayBuffer> {
+  const params = derivedKeyParams.get(cryptoKey) ?? {
+    kdf: SaltyKdf.NONE,
+    iterations: 0,
+    memory: 0,
+    parallelism: 0,
+    salt: new Uint8Array(0),
+  };
+  return encodeEnvelopeHeader({
+    version: SALTY_FORMAT_VERSION,
+    flags,
+    cipher: SaltyCipher.AES_256_GCM,
+    ...params,
+  });
+}
+
+/**
+ * Options shared by the encrypt and decrypt functions
+ */
+export interface SaltyContextOptions {
+  /**
+   * Context bound to the ciphertext as additional authenticated data, such
+   * as a ticket ID, recipient or purpose. It is not stored in the message;
+   * decryption must supply the same context or it fails.
+   */
+  context?: string;
+}
+
+/**
+ * Options for salty_encrypt
+ */
+export interface SaltyEncryptOptions extends SaltyContextOptions {
+  /** KDF used when encrypting with a passphrase (defaults to Argon2id) */
+  kdf?: SaltyKdfOptions;
+  /** Length-hiding padding scheme (defaults to none) */
+  padding?: SaltyPadding;
+  /**
+   * Compression applied before encryption (defaults to none). Unsafe for
+   * messages mixing secrets with attacker-influenced content.
+   */
+  compression?: SaltyCompression;
+  /** Text encoding of the ciphertext (defaults to basE91) */
+  encoding?: SaltyEncoding;
+  /**
+   * Where to run the KDF for a passphrase, such as salty_worker_deriver()
+   * (defaults to this thread)
+   */
+  deriver?: SaltyKeyDeriver;
+}
+
+/**
+ * Options for salty_encrypt_bytes
+ */
+export interface SaltyEncryptBytesOptions
+  extends SaltyEncryptOptions, SaltyFileMetadata {}
+
+/**
+ * Builds the AES-GCM additional data for a message: the header bytes
+ * followed by the UTF-8 context, if any.
+ * @param headerBytes The serialized header.
+ * @param context The caller's context string (optional).
+ * @returns The additional authenticated data.
+ */
+function additionalData(
+  headerBytes: Uint8Array,
+  context?: string,
+): Uint8Array<ArrayBuffer> {
+  const contextBytes = new TextEncoder().encode(context ?? "");
+  const aad = new Uint8Array(headerBytes.length + contextBytes.length);
+  aad.set(headerBytes, 0);
+  aad.set(contextBytes, headerBytes.length);
+  return aad;
+}
+
+/**
+ * Compresses bytes with a CompressionStream.
+ * @param data The bytes to compress.
+ * @param format The compression format.
+ * @returns The compressed bytes.
+ */
+async function compressBytes(
+  data: Uint8Array,
+  format: SaltyCompression.DEFLATE | SaltyCompression.GZIP,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(
+    new CompressionStream(format),
+  );
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Reads the format of bytes written by compressBytes. gzip is recognized by
+ * its magic bytes (1f 8b); anything else is read as zlib, whose first byte
+ * can never be 0x1f.
+ * @param data The compressed bytes.
+ * @returns The compression format.
+ */
+function compressionOf(
+  data: Uint8Array,
+): SaltyCompression.DEFLATE | SaltyCompression.GZIP {
+  return data[0] === 0x1f && data[1] === 0x8b
+    ? SaltyCompression.GZIP
+    : SaltyCompression.DEFLATE;
+}
+
+/**
+ * Decompresses bytes written by compressBytes.
+ * @param data The compressed bytes.
+ * @param maxSize The largest decompressed size accepted.
+ * @returns The decompressed bytes, or null if they are malformed or too large.
+ */
+async function decompressBytes(
+  data: Uint8Array,
+  maxSize: number,
+): Promise<Uint8Array | null> {
+  const format = compressionOf(data);
+  const reader = new Blob([data.slice()]).stream()
+    .pipeThrough(new DecompressionStream(format))
+    .getReader();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.length;
+      if (size > maxSize) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  } catch (_e) {
+    // Corrupt or truncated compressed data
+    return null;
+  }
+
+  return concatBytes(chunks);
+}
+
+/**
+ * Computes the padded size for a plaintext length.
+ * @param length The plaintext length including the padding marker.
+ * @param padding The padding scheme.
+ * @returns The padded length.
+ */
+function paddedLength(length: number, padding: SaltyPadding): number {
+  if (length < 2) {
+    return length;
+  }
+  if (padding === SaltyPadding.POWER_OF_TWO) {
+    let size = 1;
+    while (size < length) {
+      size *= 2;
+    }
+    return size;
+  }
+  // Padmé keeps only the top log2(log2(length)) + 1 bits of the length
+  const exponent = 31 - Math.clz32(length);
+  const lastBits = exponent - (32 - Math.clz32(exponent));
+  const unit = 2 ** lastBits;
+  return Math.ceil(length / unit) * unit;
+}
+
+/**
+ * Appends a 0x80 marker and zero bytes up to the scheme's padded size.
+ * @param data The plaintext.
+ * @param padding The padding scheme.
+ * @returns The padded plaintext.
+ */
+function padPlaintext(
+  data: Uint8Array,
+  padding: SaltyPadding,
+): Uint8Array<ArrayBuffer> {
+  const padded = new Uint8Array(paddedLength(data.length + 1, padding));
+  padded.set(data, 0);
+  padded[data.length] = 0x80;
+  return padded;
+}
+
+/**
+ * Reads back the scheme that padded a plaintext. Schemes only differ in the
+ * padded size, so it is the one whose size matches; Padmé is assumed where
+ * both do, since they then pad alike.
+ * @param padded The padded length.
+ * @param length The length without padding.
+ * @returns The padding scheme.
+ */
+function paddingOf(padded: number, length: number): SaltyPadding {
+  return padded !== paddedLength(length + 1, SaltyPadding.PADME) &&
+      padded === paddedLength(length + 1, SaltyPadding.POWER_OF_TWO)
+    ? SaltyPadding.POWER_OF_TWO
+    : SaltyPadding.PADME;
+}
+
+/**
+ * Strips padding added by padPlaintext.
+ * @param padded The decrypted, padded plaintext.
+ * @returns The plaintext, or null if no padding marker is found.
+ */
+function unpadPlaintext(padded: Uint8Array): Uint8Array | null {
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) {
+    end--;
+  }
+  return end >= 0 && padded[end] === 0x80 ? padded.subarray(0, end) : null;
+}
+
+/**
+ * Serializes file metadata as a plaintext prefix.
+ *
+ * Layout: filenameLength(1) | filename | mimeTypeLength(1) | mimeType,
+ * both fields UTF-8 and empty when absent.
+ *
+ * @param metadata The file metadata.
+ * @returns The encoded metadata.
+ * @throws Error if a field is longer than 255 bytes
+ */
+function encodeMetadata(metadata: SaltyFileMetadata): Uint8Array {
+  const enc = new TextEncoder();
+  const filename = enc.encode(metadata.filename ?? "");
+  const mimeType = enc.encode(metadata.mimeType ?? "");
+  if (
+    filename.length > MAX_METADATA_FIELD_LENGTH ||
+    mimeType.length > MAX_METADATA_FIELD_LENGTH
+  ) {
+    throw new Error("Filename or MIME type too long");
+  }
+
+  const bytes = new Uint8Array(2 + filename.length + mimeType.length);
+  bytes[0] = filename.length;
+  bytes.set(filename, 1);
+  bytes[1 + filename.length] = mimeType.length;
+  bytes.set(mimeType, 2 + filename.length);
+  return bytes;
+}
+
+/**
+ * Splits decrypted plaintext into metadata and content.
+ * @param plaintext The decrypted bytes, starting with encoded metadata.
+ * @returns The metadata and content, or null if the prefix is malformed.
+ */
+function decodeMetadata(plaintext: Uint8Array): SaltyDecryptedBytes | null {
+  const dec = new TextDecoder("utf-8", { fatal: true });
+  try {
+    const filenameLength = plaintext[0];
+    const mimeTypeOffset = 1 + filenameLength;
+    if (plaintext.length < mimeTypeOffset + 1) {
+      return null;
+    }
+    const mimeTypeLength = plaintext[mimeTypeOffset];
+    const dataOffset = mimeTypeOffset + 1 + mimeTypeLength;
+    if (plaintext.length < dataOffset) {
+      return null;
+    }
+
+    const metadata: SaltyFileMetadata = {};
+    if (filenameLength > 0) {
+      metadata.filename = dec.decode(plaintext.subarray(1, mimeTypeOffset));
+    }
+    if (mimeTypeLength > 0) {
+      metadata.mimeType = dec.decode(
+        plaintext.subarray(mimeTypeOffset + 1, dataOffset),
+      );
+    }
+    return { data: plaintext.slice(dataOffset), metadata };
+  } catch (_e) {
+    // Invalid UTF-8 in a metadata field
+    return null;
+  }
+}
+
+/**
+ * Concatenates byte arrays.
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Prepares content for encryption: prepends file metadata, then compresses
+ * and pads as requested.
+ * @param content The bytes to encrypt.
+ * @param options Encryption options and file metadata.
+ * @returns The plaintext to encrypt and the header flags describing it.
+ * The plaintext is always a copy of the content, for the caller to zero
+ * once it is encrypted.
+ */
+async function preparePlaintext(
+  content: Uint8Array,
+  options: SaltyEncryptBytesOptions,
+): Promise<{ data: Uint8Array<ArrayBuffer>; flags: number }> {
+  let flags = 0;
+  let data: Uint8Array<ArrayBuffer>;
+
+  // File metadata travels inside the ciphertext, flagged in the header
+  if (options.filename !== undefined || options.mimeType !== undefined) {
+    data = concatBytes([encodeMetadata(options), content]);
+    flags |= SaltyFlag.METADATA;
+  } else {
+    data = content.slice();
+  }
+
+  const compression = options.compression ?? SaltyCompression.NONE;
+  if (compression !== SaltyCompression.NONE) {
+    data = await compressBytes(data, compression);
+    flags |= SaltyFlag.COMPRESSED;
+  }
+
+  const padding = options.padding ?? SaltyPadding.NONE;
+  if (padding !== SaltyPadding.NONE) {
+    data = padPlaintext(data, padding);
+    flags |= SaltyFlag.PADDED;
+  }
+
+  return { data, flags };
+}
+
+/**
+ * Content opened by openPlaintext, with the padding and compression it was
+ * prepared with
+ */
+interface SaltyOpenedPlaintext extends SaltyDecryptedBytes {
+  /** Padding scheme, read back from the padded size */
+  padding: SaltyPadding;
+  /** Compression format, read back from the compressed bytes */
+  compression: SaltyCompression;
+}
+
+/**
+ * Reverses preparePlaintext. Only called once the tag has been verified,
+ * so padding and compression errors reveal nothing about the key.
+ * @param plaintext The decrypted bytes.
+ * @param flags The header flags.
+ * @param options Decryption options.
+ * @returns The content, metadata, padding and compression, or null if the
+ * plaintext is malformed.
+ */
+async function openPlaintext(
+  plaintext: Uint8Array,
+  flags: number,
+  options: SaltyDecryptOptions,
+): Promise<SaltyOpenedPlaintext | null> {
+  let data: Uint8Array | null = plaintext;
+  let padding = SaltyPadding.NONE;
+  let compression = SaltyCompression.NONE;
+  if (flags & SaltyFlag.PADDED) {
+    data = unpadPlaintext(data);
+    padding = data ? paddingOf(plaintext.length, data.length) : padding;
+  }
+  if (data && flags & SaltyFlag.COMPRESSED) {
+    compression = compressionOf(data);
+    data = await decompressBytes(
+      data,
+      options.maxDecompressedSize ?? MAX_DECOMPRESSED_SIZE,
+    );
+  }
+  if (!data) {
+    return null;
+  }
+  const opened = flags & SaltyFlag.METADATA
+    ? decodeMetadata(data)
+    : { data, metadata: {} };
+  return opened && { ...opened, padding, compression };
+}
+
+/**
+ * Encrypts a plaintext, authenticating the header and context as
+ * additional data.
+ * @param headerBytes The serialized header.
+ * @param cryptoKey The encryption key.
+ * @param data The plaintext.
+ * @param context The caller's context string (optional).
+ * @returns IV || ciphertext.
+ */
+async function encryptBody(
+  headerBytes: Uint8Array,
+  cryptoKey: CryptoKey,
+  data: Uint8Array<ArrayBuffer>,
+  context?: string,
+): Promise<Uint8Array> {
+  // Generate a random Initialization Vector (IV)
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH)); // AES-GCM uses 12-byte IV
+
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv,
+      additionalData: additionalData(headerBytes, context),
+      tagLength: TAG_LENGTH * 8, // Authentication tag length in bits
+    },
+    cryptoKey,
+    data,
+  );
+  return concatBytes([iv, new Uint8Array(ciphertext)]);
+}
+
+/**
+ * Encrypts bytes using AES-GCM, optionally with a filename and MIME type.
+ * Given a passphrase, a key is derived with a fresh random salt for this
+ * message (Argon2id unless options.kdf says otherwise). Given a CryptoKey,
+ * the key is used as is. With options.compression, the plaintext (including
+ * metadata) is compressed; with options.padding, it is then padded so the
+ * ciphertext length only reveals a size bucket.
+ * @param content The bytes to encrypt.
+ * @param key The passphrase, or a CryptoKey from salty_derive_key/salty_key.
+ * @param options Encryption options and file metadata.
+ * @returns The encoded envelope (header || IV || ciphertext), in basE91
+ * unless options.encoding says otherwise.
+ */
+export async function salty_encrypt_bytes(
+  content: Uint8Array,
+  key: string | CryptoKey,
+  options: SaltyEncryptBytesOptions = {},
+): Promise<string> {
+  const { data, flags } = await preparePlaintext(content, options);
+
+  const cryptoKey = typeof key === "string"
+    ? await salty_derive_key(key, options.kdf, options.deriver)
+    : key;
+
+  // The key check value follows the header and is authenticated with it
+  const keyCheck = await keyCheckOf(cryptoKey);
+  const headerBytes = keyCheck
+    ? concatBytes([
+      encodeKeyHeader(cryptoKey, flags | SaltyFlag.KEY_CHECK),
+      keyCheck,
+    ])
+    : encodeKeyHeader(cryptoKey, flags);
+  const body = await encryptBody(
+    headerBytes,
+    cryptoKey,
+    data,
+    options.context,
+  );
+  data.fill(0);
+
+  // Encode the combined envelope (header || IV || ciphertext)
+  return encodeCiphertext(concatBytes([headerBytes, body]), options.encoding);
+}
+
+/**
+ * Encrypts a message using AES-GCM.
+ * A thin wrapper over salty_encrypt_bytes for UTF-8 text.
+ * @param message The plaintext message to encrypt.
+ * @param key The passphrase, or a CryptoKey from salty_derive_key/salty_key.
+ * @param options Encryption options.
+ * @returns The encoded envelope (header || IV || ciphertext).
+ */
+export async function salty_encrypt(
+  message: string,
+  key: string | CryptoKey,
+  options: SaltyEncryptOptions = {},
+): Promise<string> {
+  const data = new TextEncoder().encode(message); // Encode message to Uint8Array
+  return await salty_encrypt_bytes(data, key, {
+    kdf: options.kdf,
+    context: options.context,
+    padding: options.padding,
+    compression: options.compression,
+    encoding: options.encoding,
+    deriver: options.deriver,
+  });
+}
+
+/**
+ * Decrypts a versioned envelope body.
+ * @param envelope The parsed envelope.
+ * @param cryptoKey The CryptoKey to decrypt with.
+ * @param context The context the message was bound to (optional).
+ * @returns The plaintext bytes, or null if authentication fails.
+ */
+async function decryptEnvelope(
+  envelope: SaltyEnvelope,
+  cryptoKey: CryptoKey,
+  context?: string,
+): Promise<Uint8Array | null> {
+  try {
+    const decryptedBuffer = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: envelope.iv.slice(),
+        additionalData: additionalData(envelope.headerBytes, context),
+        tagLength: TAG_LENGTH * 8,
+      },
+      cryptoKey,
+      envelope.ciphertext.slice(),
+    );
+    return new Uint8Array(decryptedBuffer);
+  } catch (_e) {
+    return null;
+  }
+}
+
+/**
+ * Decrypts a legacy header-less (IV || ciphertext) message.
+ * @param decoded The decoded ciphertext bytes.
+ * @param cryptoKey The CryptoKey to decrypt with.
+ * @returns The plaintext bytes, or null if decryption fails.
+ */
+async function decryptLegacy(
+  decoded: Uint8Array,
+  cryptoKey: CryptoKey,
+): Promise<Uint8Array | null> {
+  // Check minimum length: IV (12 bytes) + GCM Tag (16 bytes)
+  if (decoded.length < IV_LENGTH + TAG_LENGTH) {
+    return null; // Invalid ciphertext length
+  }
+
+  const iv = decoded.slice(0, IV_LENGTH); // Extract IV
+  const ciphertextWithTag = decoded.slice(IV_LENGTH); // Extract ciphertext with authentication tag
+
+  try {
+    // Decrypt the data
+    const decryptedBuffer = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: iv,
+        tagLength: TAG_LENGTH * 8,
+      },
+      cryptoKey,
+      ciphertextWithTag,
+    );
+    return new Uint8Array(decryptedBuffer);
+  } catch (_e) {
+    // e.g., incorrect key, corrupted ciphertext
+    return null;
+  }
+}
+
+/**
+ * Options for salty_decrypt
+ */
+export interface SaltyDecryptOptions extends SaltyContextOptions {
+  /**
+   * Hex salt for legacy header-less messages (the former server-wide
+   * SALT_HEX). Only used when decrypting with a passphrase.
+   */
+  legacySaltHex?: string;
+  /**
+   * Largest decompressed size accepted from a compressed message
+   * (defaults to MAX_DECOMPRESSED_SIZE)
+   */
+  maxDecompressedSize?: number;
+  /** Called with the reason when decryption fails */
+  onFailure?: (failure: SaltyDecryptFailure) => void;
+  /**
+   * Handling of characters outside the basE91 alphabet (defaults to
+   * lenient: whitespace and armor lines are ignored, anything else fails)
+   */
+  decodeMode?: SaltyDecodeMode;
+  /**
+   * Called with the first invalid basE91 character when decoding fails on
+   * one, before onFailure reports the message as malformed
+   */
+  onInvalidSymbol?: (symbol: SaltyInvalidSymbol) => void;
+  /**
+   * Where to run the KDF for a passphrase, such as salty_worker_deriver()
+   * (defaults to this thread)
+   */
+  deriver?: SaltyKeyDeriver;
+  /** Cache of passphrase-derived keys to consult before deriving */
+  keyCache?: SaltyKeyCache;
+  /**
+   * Most key derivation work accepted from the message (defaults to the
+   * format's limits). Messages asking for more fail as too costly before
+   * any derivation.
+   */
+  maxKdfCost?: SaltyKdfCost;
+  /**
+   * Most recipient slots tried in a multi-recipient message (defaults to
+   * MAX_RECIPIENTS). Messages with more fail as too costly, since each
+   * slot can ask for its own key derivation.
+   */
+  maxRecipients?: number;
+}
+
+/**
+ * A decrypted message with the header it was read from
+ */
+interface SaltyOpenedMessage extends SaltyOpenedPlaintext {
+  /** The message header (absent for legacy header-less messages) */
+  header?: SaltyHeader;
+}
+
+/**
+ * Decrypts an encoded ciphertext to bytes, reporting why it failed.
+ * @returns The decrypted bytes, file metadata and header, or the failure
+ * reason.
+ */
+async function decryptBytes(
+  encrypted: string,
+  key: string | CryptoKey,
+  options: SaltyDecryptOptions,
+): Promise<SaltyOpenedMessage | SaltyDecryptFailure> {
+  // A damaged paste is caught before any key derivation
+  if (parseArmor(encrypted, MESSAGE_LABEL)?.checksumValid === false) {
+    return SaltyDecryptFailure.CHECKSUM_MISMATCH;
+  }
+  const decoded = decodeCiphertext(encrypted, undefined, {
+    mode: options.decodeMode ?? SaltyDecodeMode.LENIENT,
+    onInvalidSymbol: options.onInvalidSymbol,
+  });
+  if (!decoded || decoded.length < IV_LENGTH + TAG_LENGTH) {
+    return SaltyDecryptFailure.MALFORMED;
+  }
+
+  // Only a key check value can tell a wrong key from corrupted data
+  let failure = SaltyDecryptFailure.UNKNOWN;
+
+  const envelope = parseEnvelope(decoded);
+  if (envelope) {
+    // The header names the KDF and its parameters
+    const { kdf, iterations, memory, parallelism, salt } = envelope.header;
+    const params = { kdf, iterations, memory, parallelism, salt };
+    const affordable = withinKdfCost(params, options.maxKdfCost);
+    if (typeof key === "string" && !affordable) {
+      failure = SaltyDecryptFailure.TOO_COSTLY;
+    }
+    const cryptoKey = typeof key !== "string"
+      ? key
+      : kdf !== SaltyKdf.NONE && affordable
+      ? await deriveKey(key, params, options)
+      : null;
+    const keyCheck = cryptoKey && envelope.keyCheck
+      ? await keyCheckOf(cryptoKey)
+      : null;
+    // A key check value marks a real envelope, so its verdict is final
+    // rather than a cue to try the legacy format
+    if (keyCheck && !bytesEqual(keyCheck, envelope.keyCheck!)) {
+      return SaltyDecryptFailure.WRONG_KEY;
+    }
+    const decrypted = cryptoKey
+      ? await decryptEnvelope(envelope, cryptoKey, options.context)
+      : null;
+    const result = decrypted &&
+      await openPlaintext(decrypted, envelope.header.flags, options);
+    if (result) {
+      return { ...result, header: envelope.header };
+    }
+    if (keyCheck) {
+      return SaltyDecryptFailure.CORRUPTED;
+    }
+  }
+
+  const sealed = typeof key !== "string" && key.type === "private"
+    ? parsePublicKeyEnvelope(decoded)
+    : null;
+  if (sealed) {
+    const contentKey = await unsealContentKey(sealed, key as CryptoKey);
+    const decrypted = contentKey
+      ? await decryptEnvelope(sealed, contentKey, options.context)
+      : null;
+    const result = decrypted &&
+      await openPlaintext(decrypted, sealed.header.flags, options);
+    if (result) {
+      return { ...result, header: sealed.header };
+    }
+  }
+
+  const multi = parseRecipientEnvelope(decoded);
+  if (
+    multi && multi.recipients.length > (options.maxRecipients ?? MAX_RECIPIENTS)
+  ) {
+    failure = SaltyDecryptFailure.TOO_COSTLY;
+  } else if (multi) {
+    const contentKey = await unwrapContentKey(multi, key, false, options);
+    if (
+      !contentKey && typeof key === "string" &&
+      multi.recipients.some((slot) =>
+        !withinKdfCost(slot.header, options.maxKdfCost)
+      )
+    ) {
+      failure = SaltyDecryptFailure.TOO_COSTLY;
+    }
+    const decrypted = contentKey
+      ? await decryptEnvelope(multi, contentKey, options.context)
+      : null;
+    const result = decrypted &&
+      await openPlaintext(decrypted, multi.header.flags, options);
+    if (result) {
+      return { ...result, header: multi.header };
+    }
+  }
+
+  // A legacy message's random IV can start with a valid-looking header,
+  // so fall back to the header-less format unless a key check decided
+  if (options.context) {
+    return failure;
+  }
+  const cryptoKey = typeof key !== "string"
+    ? key
+    : options.legacySaltHex
+    ? await deriveKey(key, {
+      kdf: SaltyKdf.PBKDF2_SHA512,
+      iterations: PBKDF2_ITERATIONS,
+      memory: 0,
+      parallelism: 0,
+      salt: hexToUint8Array(options.legacySaltHex),
+    }, options)
+    : null;
+  const plaintext = cryptoKey ? await decryptLegacy(decoded, cryptoKey) : null;
+  return plaintext === null ? failure : {
+    data: plaintext,
+    metadata: {},
+    padding: SaltyPadding.NONE,
+    compression: SaltyCompression.NONE,
+  };
+}
+
+/**
+ * Decrypts an encoded ciphertext to bytes using AES-GCM. The encoding
+ * (basE91, base64url, hex or Bech32) is detected, and an armored
+ * SALTY MESSAGE block is accepted.
+ * Accepts versioned envelopes, multi-recipient and public-key messages, and
+ * legacy header-less messages. Given a passphrase, the key is derived from
+ * the parameters in the header (or in each recipient slot in turn); given a
+ * private key, public-key messages are decrypted with it; legacy
+ * messages need options.legacySaltHex. Legacy messages carry no context, so
+ * they are never accepted when options.context is set.
+ *
+ * Messages with a key check value are only decrypted once the key matches
+ * it, and options.onFailure learns whether the key was wrong or the data
+ * corrupted. A basE91 paste with a stray character, such as a smart quote,
+ * fails as malformed, and options.onInvalidSymbol learns where it is.
+ * @param encrypted The encoded ciphertext.
+ * @param key The passphrase, a CryptoKey from salty_derive_key/salty_key,
+ * or a private key from salty_generate_keypair/salty_import_private_key.
+ * @param options Decryption options.
+ * @returns The decrypted bytes and file metadata, or null if decryption fails.
+ */
+export async function salty_decrypt_bytes(
+  encrypted: string,
+  key: string | CryptoKey,
+  options: SaltyDecryptOptions = {},
+): Promise<SaltyDecryptedBytes | null> {
+  const result = await decryptBytes(encrypted, key, options);
+  if (typeof result === "string") {
+    options.onFailure?.(result);
+    return null;
+  }
+  return { data: result.data, metadata: result.metadata };
+}
+
+/**
+ * Decrypts an encoded ciphertext using AES-GCM.
+ * A thin wrapper over salty_decrypt_bytes for UTF-8 text.
+ * @param encrypted The encoded ciphertext.
+ * @param key The passphrase, a CryptoKey from salty_derive_key/salty_key,
+ * or a private key from salty_generate_keypair/salty_import_private_key.
+ * @param options Decryption options.
+ * @returns The decrypted plaintext message, or null if decryption fails.
+ */
+export async function salty_decrypt(
+  encrypted: string,
+  key: string | CryptoKey,
+  options: SaltyDecryptOptions = {},
+): Promise<string | null> {
+  const result = await salty_decrypt_bytes(encrypted, key, options);
+
+  // Decode the decrypted bytes back to a string
+  return result === null ? null : new TextDecoder().decode(result.data);
+}
+
+/**
+ * Options for salty_rekey
+ */
+export interface SaltyRekeyOptions extends SaltyDecryptOptions {
+  /**
+   * KDF for the new passphrase. Defaults to the KDF and costs of the old
+   * message, or Argon2id if it had none; set it to upgrade old parameters.
+   */
+  kdf?: SaltyKdfOptions;
+  /** Padding for the new message (defaults to that of the old) */
+  padding?: SaltyPadding;
+  /** Compression for the new message (defaults to that of the old) */
+  compression?: SaltyCompression;
+  /** Text encoding of the new message (defaults to that of the old) */
+  encoding?: SaltyEncoding;
+}
+
+/**
+ * Re-encrypts a message under a new key, for rotating a leaked or retired
+ * passphrase. The message is decrypted with the old key and encrypted again
+ * with a fresh salt and IV in the current envelope format, so legacy
+ * header-less messages are upgraded too. File metadata and the padding
+ * and compression schemes are kept; the context, if any, stays the same.
+ * The plaintext only exists in memory while this runs and is zeroed
+ * afterwards.
+ *
+ * Multi-recipient and public-key messages become single-key messages for
+ * newKey. Streams are not supported; use salty_decrypt_stream and
+ * salty_encrypt_stream.
+ * @param encrypted The encoded ciphertext.
+ * @param oldKey The key the message is encrypted with, as for salty_decrypt.
+ * @param newKey The new passphrase or CryptoKey, as for salty_encrypt.
+ * @param options Decryption options and settings for the new message.
+ * @returns The re-encrypted ciphertext, or null if the old key does
+ * not decrypt the message.
+ * @throws Error if options.kdf is out of range
+ */
+export async function salty_rekey(
+  encrypted: string,
+  oldKey: string | CryptoKey,
+  newKey: string | CryptoKey,
+  options: SaltyRekeyOptions = {},
+): Promise<string | null> {
+  const opened = await decryptBytes(encrypted, oldKey, options);
+  if (typeof opened === "string") {
+    options.onFailure?.(opened);
+    return null;
+  }
+
+  const { data, metadata, padding, compression, header } = opened;
+  // Keep the old passphrase KDF and costs unless asked to change them
+  const kdf = options.kdf ?? (header && header.kdf !== SaltyKdf.NONE
+    ? {
+      kdf: header.kdf,
+      iterations: header.iterations,
+      memory: header.memory || undefined,
+      parallelism: header.parallelism || undefined,
+    } as SaltyKdfOptions
+    : undefined);
+
+  try {
+    return await salty_encrypt_bytes(data, newKey, {
+      ...metadata,
+      kdf,
+      context: options.context,
+      padding: options.padding ?? padding,
+      compression: options.compression ?? compression,
+      encoding: options.encoding ?? encodingOf(encrypted),
+      deriver: options.deriver,
+    });
+  } finally {
+    data.fill(0);
+  }
+}
+
+/**
+ * Imports a raw content key for AES-GCM.
+ */
+async function importContentKey(
+  rawKey: Uint8Array<ArrayBuffer>,
+): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    rawKey,
+    { name: "AES-GCM" },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/**
+ * Wraps a raw content key for one recipient.
+ * @param rawKey The content key bytes.
+ * @param key The recipient's passphrase or CryptoKey.
+ * @param kdf KDF used when the recipient is given as a passphrase.
+ * @param deriver Where to run that KDF (optional).
+ * @returns The recipient slot (key header || IV || wrapped key).
+ */
+async function wrapContentKey(
+  rawKey: Uint8Array<ArrayBuffer>,
+  key: string | CryptoKey,
+  kdf?: SaltyKdfOptions,
+  deriver?: SaltyKeyDeriver,
+): Promise<Uint8Array> {
+  const wrappingKey = typeof key === "string"
+    ? await salty_derive_key(key, kdf, deriver)
+    : key;
+  const headerBytes = encodeKeyHeader(wrappingKey, 0);
+  return concatBytes([
+    headerBytes,
+    await encryptBody(headerBytes, wrappingKey, rawKey),
+  ]);
+}
+
+/**
+ * Recovers the content key from the first recipient slot the key opens.
+ * A passphrase is derived for each slot in turn, through options.keyCache
+ * when given, and slots above the cost cap are skipped.
+ * @param envelope The parsed multi-recipient envelope.
+ * @param key The passphrase, or a CryptoKey from salty_derive_key/salty_key.
+ * @param extractable Whether the returned key may be exported.
+ * @param options Deriver, key cache and cost cap for a passphrase
+ * (optional).
+ * @returns The content key, or null if no slot opens.
+ */
+async function unwrapContentKey(
+  envelope: SaltyRecipientEnvelope,
+  key: string | CryptoKey,
+  extractable = false,
+  options: Pick<SaltyDecryptOptions, "deriver" | "keyCache" | "maxKdfCost"> =
+    {},
+): Promise<CryptoKey | null> {
+  for (const slot of envelope.recipients) {
+    // Each slot names the KDF and parameters for its recipient
+    const { kdf, iterations, memory, parallelism, salt } = slot.header;
+    const params = { kdf, iterations, memory, parallelism, salt };
+    if (
+      typeof key === "string" &&
+      (kdf === SaltyKdf.NONE || !withinKdfCost(params, options.maxKdfCost))
+    ) {
+      continue;
+    }
+    const wrappingKey = typeof key !== "string"
+      ? key
+      : await deriveKey(key, params, options);
+
+    const ivOffset = slot.headerLength;
+    try {
+      const rawKey = new Uint8Array(
+        await crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: slot.bytes.slice(ivOffset, ivOffset + IV_LENGTH),
+            additionalData: slot.bytes.slice(0, ivOffset),
+            tagLength: TAG_LENGTH * 8,
+          },
+          wrappingKey,
+          slot.bytes.slice(ivOffset + IV_LENGTH),
+        ),
+      );
+      const contentKey = await crypto.subtle.importKey(
+        "raw",
+        rawKey,
+        { name: "AES-GCM" },
+        extractable,
+        ["encrypt", "decrypt"],
+      );
+      rawKey.fill(0);
+      return contentKey;
+    } catch (_e) {
+      // Not this recipient's slot
+    }
+  }
+  return null;
+}
+
+/**
+ * Encrypts bytes once for several recipients. A random content key
+ * encrypts the body, and a copy of it is wrapped with AES-GCM under each
+ * recipient's key, so any one recipient can decrypt with salty_decrypt_bytes.
+ * Recipients can be added later with salty_add_recipient. Decrypting with a
+ * passphrase derives a key per slot until one opens, so each recipient adds
+ * one key derivation to the worst case.
+ * @param content The bytes to encrypt.
+ * @param keys The recipients' passphrases or CryptoKeys.
+ * @param options Encryption options and file metadata; options.kdf applies
+ * to every passphrase.
+ * @returns The encoded multi-recipient envelope.
+ * @throws Error if there are no recipients or more than MAX_RECIPIENTS
+ */
+export async function salty_encrypt_recipients_bytes(
+  content: Uint8Array,
+  keys: (string | CryptoKey)[],
+  options: SaltyEncryptBytesOptions = {},
+): Promise<string> {
+  if (keys.length < 1 || keys.length > MAX_RECIPIENTS) {
+    throw new Error(`Between 1 and ${MAX_RECIPIENTS} recipients are required`);
+  }
+
+  const { data, flags } = await preparePlaintext(content, options);
+  const rawKey = crypto.getRandomValues(new Uint8Array(KEY_LENGTH));
+  const contentKey = await importContentKey(rawKey);
+
+  const slots: Uint8Array[] = [];
+  for (const key of keys) {
+    slots.push(
+      await wrapContentKey(rawKey, key, options.kdf, options.deriver),
+    );
+  }
+  rawKey.fill(0);
+
+  // The recipient list is not authenticated by the body, so slots can be
+  // added without re-encrypting it; a forged slot only yields a key that
+  // fails the body's tag
+  const headerBytes = encodeKeyHeader(contentKey, flags | SaltyFlag.RECIPIENTS);
+  const body = await encryptBody(
+    headerBytes,
+    contentKey,
+    data,
+    options.context,
+  );
+  data.fill(0);
+
+  return encodeCiphertext(
+    concatBytes([headerBytes, Uint8Array.of(keys.length), ...slots, body]),
+    options.encoding,
+  );
+}
+
+/**
+ * Encrypts a message once for several recipients.
+ * A thin wrapper over salty_encrypt_recipients_bytes for UTF-8 text.
+ * @param message The plaintext message to encrypt.
+ * @param keys The recipients' passphrases or CryptoKeys.
+ * @param options Encryption options.
+ * @returns The encoded multi-recipient envelope.
+ */
+export async function salty_encrypt_recipients(
+  message: string,
+  keys: (string | CryptoKey)[],
+  options: SaltyEncryptOptions = {},
+): Promise<string> {
+  const data = new TextEncoder().encode(message);
+  return await salty_encrypt_recipients_bytes(data, keys, {
+    kdf: options.kdf,
+    context: options.context,
+    padding: options.padding,
+    compression: options.compression,
+    encoding: options.encoding,
+    deriver: options.deriver,
+  });
+}
+
+/**
+ * Adds a recipient to a multi-recipient message without re-encrypting its
+ * body. The caller must already be able to decrypt the message.
+ * @param encrypted The encoded multi-recipient envelope.
+ * @param key An existing recipient's passphrase or CryptoKey.
+ * @param newKey The new recipient's passphrase or CryptoKey.
+ * @param options KDF used when the new recipient is a passphrase, and
+ * where to run key derivation.
+ * @returns The updated envelope, or null if the message is not a
+ * multi-recipient message, is full, or the key opens no slot.
+ */
+export async function salty_add_recipient(
+  encrypted: string,
+  key: string | CryptoKey,
+  newKey: string | CryptoKey,
+  options: Pick<SaltyEncryptOptions, "kdf" | "deriver"> = {},
+): Promise<string | null> {
+  const decoded = decodeCiphertext(encrypted);
+  const envelope = decoded && parseRecipientEnvelope(decoded);
+  if (!envelope || envelope.recipients.length >= MAX_RECIPIENTS) {
+    return null;
+  }
+
+  const contentKey = await unwrapContentKey(envelope, key, true, {
+    deriver: options.deriver,
+  });
+  if (!contentKey) {
+    return null;
+  }
+  const rawKey = new Uint8Array(
+    await crypto.subtle.exportKey("raw", contentKey),
+  );
+  const slot = await wrapContentKey(
+    rawKey,
+    newKey,
+    options.kdf,
+    options.deriver,
+  );
+  rawKey.fill(0);
+
+  return encodeCiphertext(
+    concatBytes([
+      envelope.headerBytes,
+      Uint8Array.of(envelope.recipients.length + 1),
+      ...envelope.recipients.map((recipient) => recipient.bytes),
+      slot,
+      envelope.iv,
+      envelope.ciphertext,
+    ]),
+    // Keep the encoding the message came in
+    encodingOf(encrypted),
+  );
+}
+
+/**
+ * Public-key algorithms for salty_generate_keypair, as recorded in keys and
+ * messages
+ */
+export enum SaltyKeyAlgorithm {
+  /** ECDH on NIST P-256, for encryption */
+  P256 = 0x01,
+  /** X25519 (RFC 7748), for encryption */
+  X25519 = 0x02,
+  /** ECDSA on NIST P-256 with SHA-256, for signing */
+  ECDSA_P256 = 0x03,
+  /** Ed25519 (RFC 8032), for signing */
+  ED25519 = 0x04,
+}
+
+/** Armor label for public keys */
+const PUBLIC_KEY_LABEL = "SALTY PUBLIC KEY";
+
+/** Armor label for passphrase-protected private keys */
+const PRIVATE_KEY_LABEL = "SALTY PRIVATE KEY";
+
+/** Armor label for signed messages */
+const SIGNED_MESSAGE_LABEL = "SALTY SIGNED MESSAGE";
+
+/** HKDF info string binding derived keys to this format */
+const PUBLIC_KEY_HKDF_INFO = new TextEncoder().encode(
+  "Salty ECDH AES-256-GCM",
+);
+
+/**
+ * WebCrypto parameters for a public-key algorithm
+ */
+interface SaltyKeyAlgorithmParams {
+  /** Key generation and import parameters */
+  params: EcKeyImportParams | Algorithm;
+  /** Length of the raw public key */
+  publicKeyLength: number;
+  /** Usages of the private key */
+  privateUsages: KeyUsage[];
+  /** Usages of the public key */
+  publicUsages: KeyUsage[];
+  /** Signature parameters, for signing algorithms only */
+  signParams?: EcdsaParams | Algorithm;
+}
+
+/**
+ * WebCrypto parameters for each algorithm
+ */
+const keyAlgorithms: Record<SaltyKeyAlgorithm, SaltyKeyAlgorithmParams> = {
+  [SaltyKeyAlgorithm.P256]: {
+    params: { name: "ECDH", namedCurve: "P-256" },
+    publicKeyLength: 65,
+    privateUsages: ["deriveBits"],
+    publicUsages: [],
+  },
+  [SaltyKeyAlgorithm.X25519]: {
+    params: { name: "X25519" },
+    publicKeyLength: 32,
+    privateUsages: ["deriveBits"],
+    publicUsages: [],
+  },
+  [SaltyKeyAlgorithm.ECDSA_P256]: {
+    params: { name: "ECDSA", namedCurve: "P-256" },
+    publicKeyLength: 65,
+    privateUsages: ["sign"],
+    publicUsages: ["verify"],
+    signParams: { name: "ECDSA", hash: "SHA-256" },
+  },
+  [SaltyKeyAlgorithm.ED25519]: {
+    params: { name: "Ed25519" },
+    publicKeyLength: 32,
+    privateUsages: ["sign"],
+    publicUsages: ["verify"],
+    signParams: { name: "Ed25519" },
+  },
+};
+
+/**
+ * Identifies the Salty algorithm of a WebCrypto key.
+ * @param key An ECDH P-256 or X25519 key.
+ * @returns The algorithm, or null for any other key.
+ */
+function keyAlgorithmOf(key: CryptoKey): SaltyKeyAlgorithm | null {
+  const { name } = key.algorithm;
+  const curve = (key.algorithm as EcKeyAlgorithm).namedCurve;
+  if (name === "X25519") {
+    return SaltyKeyAlgorithm.X25519;
+  }
+  if (name === "Ed25519") {
+    return SaltyKeyAlgorithm.ED25519;
+  }
+  if (name === "ECDH" && curve === "P-256") {
+    return SaltyKeyAlgorithm.P256;
+  }
+  if (name === "ECDSA" && curve === "P-256") {
+    return SaltyKeyAlgorithm.ECDSA_P256;
+  }
+  return null;
+}
+
+/**
+ * Identifies the Salty algorithm of an encryption (key agreement) key.
+ * @param key A WebCrypto key.
+ * @returns The algorithm, or null for signing keys and any other key.
+ */
+function agreementAlgorithmOf(key: CryptoKey): SaltyKeyAlgorithm | null {
+  const algorithm = keyAlgorithmOf(key);
+  return algorithm !== null && !keyAlgorithms[algorithm].signParams
+    ? algorithm
+    : null;
+}
+
+/**
+ * Extracts the body of an armored block.
+ * @param label The expected armor label.
+ * @param text The armored text.
+ * @returns The body with whitespace removed, or null if the armor is missing
+ * or its checksum does not match.
+ */
+function dearmor(label: string, text: string): string | null {
+  const armored = parseArmor(text, label);
+  return armored && armored.checksumValid !== false ? armored.body : null;
+}
+
+/**
+ * Generates a key pair for public-key encryption or, with ECDSA_P256 or
+ * ED25519, for signing. The private key is extractable so it can be saved
+ * with salty_export_private_key.
+ * @param algorithm The key algorithm (defaults to P-256 key agreement, which
+ * every WebCrypto implementation supports).
+ * @returns The generated key pair.
+ */
+export async function salty_generate_keypair(
+  algorithm: SaltyKeyAlgorithm = SaltyKeyAlgorithm.P256,
+): Promise<CryptoKeyPair> {
+  const { params, privateUsages, publicUsages } = keyAlgorithms[algorithm];
+  return await crypto.subtle.generateKey(
+    params,
+    true,
+    [...privateUsages, ...publicUsages],
+  ) as CryptoKeyPair;
+}
+
+/**
+ * Exports a public key as an armored SALTY PUBLIC KEY block.
+ *
+ * Body: basE91(algorithm(1) | raw public key).
+ *
+ * @param publicKey A public key from salty_generate_keypair.
+ * @returns The armored public key.
+ * @throws Error if the key is not a supported public key
+ */
+export async function salty_export_public_key(
+  publicKey: CryptoKey,
+): Promise<string> {
+  const algorithm = keyAlgorithmOf(publicKey);
+  if (algorithm === null || publicKey.type !== "public") {
+    throw new Error("Unsupported public key");
+  }
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", publicKey));
+  return formatArmor(
+    PUBLIC_KEY_LABEL,
+    base91_encode(concatBytes([Uint8Array.of(algorithm), raw])),
+  );
+}
+
+/**
+ * Imports an armored SALTY PUBLIC KEY block.
+ * @param armored The armored public key.
+ * @returns The public key.
+ * @throws Error if the armor or key is invalid
+ */
+export async function salty_import_public_key(
+  armored: string,
+): Promise<CryptoKey> {
+  const body = dearmor(PUBLIC_KEY_LABEL, armored);
+  const data = body ? base91_decode(body) : null;
+  const algorithm = data ? keyAlgorithms[data[0] as SaltyKeyAlgorithm] : null;
+  if (!data || !algorithm || data.length !== 1 + algorithm.publicKeyLength) {
+    throw new Error("Invalid public key");
+  }
+
+  try {
+    return await crypto.subtle.importKey(
+      "raw",
+      data.slice(1),
+      algorithm.params,
+      true,
+      algorithm.publicUsages,
+    );
+  } catch (_e) {
+    // Not a point on the curve
+    throw new Error("Invalid public key");
+  }
+}
+
+/**
+ * Exports a private key as an armored SALTY PRIVATE KEY block, encrypted
+ * with a passphrase like any other Salty message.
+ * @param privateKey An extractable private key from salty_generate_keypair.
+ * @param passphrase The passphrase protecting the exported key.
+ * @param options KDF used to derive the protecting key.
+ * @returns The armored, encrypted private key.
+ * @throws Error if the key is not a supported, extractable private key
+ */
+export async function salty_export_private_key(
+  privateKey: CryptoKey,
+  passphrase: string,
+  options: Pick<SaltyEncryptOptions, "kdf"> = {},
+): Promise<string> {
+  const algorithm = keyAlgorithmOf(privateKey);
+  if (algorithm === null || privateKey.type !== "private") {
+    throw new Error("Unsupported private key");
+  }
+  const pkcs8 = new Uint8Array(
+    await crypto.subtle.exportKey("pkcs8", privateKey),
+  );
+
+  // The label is bound as context, so a key blob never decrypts as a message
+  const data = concatBytes([Uint8Array.of(algorithm), pkcs8]);
+  pkcs8.fill(0);
+  const encrypted = await salty_encrypt_bytes(data, passphrase, {
+    kdf: options.kdf,
+    context: PRIVATE_KEY_LABEL,
+  });
+  data.fill(0);
+  return formatArmor(PRIVATE_KEY_LABEL, encrypted);
+}
+
+/**
+ * Imports an armored SALTY PRIVATE KEY block.
+ * @param armored The armored, encrypted private key.
+ * @param passphrase The passphrase protecting the key.
+ * @param extractable Whether the imported key may be exported again.
+ * @returns The private key, or null if the passphrase is wrong or the block
+ * is invalid.
+ */
+export async function salty_import_private_key(
+  armored: string,
+  passphrase: string,
+  extractable = false,
+): Promise<CryptoKey | null> {
+  const body = dearmor(PRIVATE_KEY_LABEL, armored);
+  const decrypted = body
+    ? await salty_decrypt_bytes(body, passphrase, {
+      context: PRIVATE_KEY_LABEL,
+    })
+    : null;
+  const algorithm = decrypted
+    ? keyAlgorithms[decrypted.data[0] as SaltyKeyAlgorithm]
+    : null;
+  if (!decrypted || !algorithm) {
+    return null;
+  }
+
+  const pkcs8 = decrypted.data.slice(1);
+  try {
+    return await crypto.subtle.importKey(
+      "pkcs8",
+      pkcs8,
+      algorithm.params,
+      extractable,
+      algorithm.privateUsages,
+    );
+  } catch (_e) {
+    return null;
+  } finally {
+    pkcs8.fill(0);
+    decrypted.data.fill(0);
+  }
+}
+
+/**
+ * Derives the AES-GCM content key for a public-key message from an ECDH
+ * shared secret with HKDF-SHA256, salted with the ephemeral public key.
+ * @param privateKey Our private key (ephemeral when encrypting).
+ * @param publicKey Their public key (ephemeral when decrypting).
+ * @param ephemeralKey The raw ephemeral public key.
+ * @returns The content key.
+ */
+async function deriveSharedKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralKey: Uint8Array,
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits(
+    {
+      name: publicKey.algorithm.name,
+      public: publicKey,
+    } as EcdhKeyDeriveParams,
+    privateKey,
+    256,
+  );
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    sharedSecret,
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  return await crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: ephemeralKey.slice(),
+      info: PUBLIC_KEY_HKDF_INFO,
+    },
+    keyMaterial,
+    { name: "AES-GCM", length: KEY_LENGTH * 8 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/**
+ * A parsed public-key envelope
+ */
+interface SaltyPublicKeyEnvelope extends SaltyEnvelope {
+  /** Algorithm of the ephemeral and recipient keys */
+  algorithm: SaltyKeyAlgorithm;
+  /** The sender's raw ephemeral public key */
+  ephemeralKey: Uint8Array;
+}
+
+/**
+ * Parses a public-key envelope from decoded bytes.
+ *
+ * Layout: header (PUBLIC_KEY flag, no KDF) | algorithm(1) |
+ * ephemeralKeyLength(1) | ephemeralKey | IV | ciphertext. Everything before
+ * the IV is authenticated as additional data.
+ *
+ * @param data The decoded ciphertext bytes.
+ * @returns The parsed envelope, or null if the data is not one.
+ */
+function parsePublicKeyEnvelope(
+  data: Uint8Array,
+): SaltyPublicKeyEnvelope | null {
+  const parsed = parseHeader(data);
+  if (
+    !parsed ||
+    (parsed.header.flags & LAYOUT_FLAGS) !== SaltyFlag.PUBLIC_KEY ||
+    parsed.header.kdf !== SaltyKdf.NONE
+  ) {
+    return null;
+  }
+
+  const { header, headerLength } = parsed;
+  const algorithm: SaltyKeyAlgorithm = data[headerLength];
+  const keyLength = data[headerLength + 1];
+  const params = keyAlgorithms[algorithm];
+  if (!params || params.signParams || params.publicKeyLength !== keyLength) {
+    return null;
+  }
+
+  const ivOffset = headerLength + 2 + keyLength;
+  if (data.length < ivOffset + IV_LENGTH + TAG_LENGTH) {
+    return null;
+  }
+
+  return {
+    header,
+    headerBytes: data.slice(0, ivOffset),
+    algorithm,
+    ephemeralKey: data.slice(headerLength + 2, ivOffset),
+    iv: data.slice(ivOffset, ivOffset + IV_LENGTH),
+    ciphertext: data.slice(ivOffset + IV_LENGTH),
+  };
+}
+
+/**
+ * Recovers the content key of a public-key message.
+ * @param envelope The parsed public-key envelope.
+ * @param privateKey The recipient's private key.
+ * @returns The content key, or null if the key does not match the message.
+ */
+async function unsealContentKey(
+  envelope: SaltyPublicKeyEnvelope,
+  privateKey: CryptoKey,
+): Promise<CryptoKey | null> {
+  if (agreementAlgorithmOf(privateKey) !== envelope.algorithm) {
+    return null;
+  }
+  try {
+    const ephemeralPublicKey = await crypto.subtle.importKey(
+      "raw",
+      envelope.ephemeralKey.slice(),
+      keyAlgorithms[envelope.algorithm].params,
+      true,
+      [],
+    );
+    return await deriveSharedKey(
+      privateKey,
+      ephemeralPublicKey,
+      envelope.ephemeralKey,
+    );
+  } catch (_e) {
+    // Invalid curve point or degenerate shared secret
+    return null;
+  }
+}
+
+/**
+ * Encrypts bytes to a recipient's public key. A fresh ephemeral key pair is
+ * generated per message; its ECDH shared secret with the recipient's key
+ * is stretched with HKDF-SHA256 into an AES-256-GCM key. Only the holder of
+ * the matching private key can decrypt, with salty_decrypt_bytes.
+ * @param content The bytes to encrypt.
+ * @param publicKey The recipient's public key (see salty_import_public_key).
+ * @param options Encryption options and file metadata.
+ * @returns The encoded public-key envelope.
+ * @throws Error if the key is not a supported public key
+ */
+export async function salty_encrypt_public_bytes(
+  content: Uint8Array,
+  publicKey: CryptoKey,
+  options: Omit<SaltyEncryptBytesOptions, "kdf" | "deriver"> = {},
+): Promise<string> {
+  const algorithm = agreementAlgorithmOf(publicKey);
+  if (algorithm === null || publicKey.type !== "public") {
+    throw new Error("Unsupported public key");
+  }
+
+  const { data, flags } = await preparePlaintext(content, options);
+  const ephemeral = await salty_generate_keypair(algorithm);
+  const ephemeralKey = new Uint8Array(
+    await crypto.subtle.exportKey("raw", ephemeral.publicKey),
+  );
+  const contentKey = await deriveSharedKey(
+    ephemeral.privateKey,
+    publicKey,
+    ephemeralKey,
+  );
+
+  const headerBytes = concatBytes([
+    encodeKeyHeader(contentKey, flags | SaltyFlag.PUBLIC_KEY),
+    Uint8Array.of(algorithm, ephemeralKey.length),
+    ephemeralKey,
+  ]);
+  const body = await encryptBody(
+    headerBytes,
+    contentKey,
+    data,
+    options.context,
+  );
+  data.fill(0);
+
+  return encodeCiphertext(concatBytes([headerBytes, body]), options.encoding);
+}
+
+/**
+ * Encrypts a message to a recipient's public key.
+ * A thin wrapper over salty_encrypt_public_bytes for UTF-8 text.
+ * @param message The plaintext message to encrypt.
+ * @param publicKey The recipient's public key (see salty_import_public_key).
+ * @param options Encryption options.
+ * @returns The encoded public-key envelope.
+ */
+export async function salty_encrypt_public(
+  message: string,
+  publicKey: CryptoKey,
+  options: Omit<SaltyEncryptOptions, "kdf" | "deriver"> = {},
+): Promise<string> {
+  const data = new TextEncoder().encode(message);
+  return await salty_encrypt_public_bytes(data, publicKey, {
+    context: options.context,
+    padding: options.padding,
+    compression: options.compression,
+    encoding: options.encoding,
+  });
+}
+
+/** Length of a raw ECDSA P-256 (r || s) or Ed25519 signature */
+const SIGNATURE_LENGTH = 64;
+
+/** Prefix of all signed data, so signatures cannot be reused elsewhere */
+const SIGNATURE_DOMAIN = new TextEncoder().encode("Salty signed message\0");
+
+/**
+ * Compares two byte arrays. Not constant time, so for public values only.
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Formats the fingerprint of an encoded public key: SHA-256 over the
+ * algorithm byte and raw key, as hex in groups of four.
+ */
+async function fingerprintOf(encodedKey: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(
+    await crypto.subtle.digest("SHA-256", encodedKey.slice()),
+  );
+  const hex = Array.from(digest, (b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return hex.match(/.{4}/g)!.join(" ");
+}
+
+/**
+ * Exports a public key in the form used by armor and signatures.
+ * @returns algorithm(1) | raw public key, or null for unsupported keys.
+ */
+async function encodePublicKey(
+  publicKey: CryptoKey,
+): Promise<Uint8Array | null> {
+  const algorithm = keyAlgorithmOf(publicKey);
+  if (algorithm === null || publicKey.type !== "public") {
+    return null;
+  }
+  const raw = new Uint8Array(await crypto.subtle.exportKey("raw", publicKey));
+  return concatBytes([Uint8Array.of(algorithm), raw]);
+}
+
+/**
+ * Computes the fingerprint of a public key, for comparing keys out of band.
+ * @param publicKey A public key from salty_generate_keypair or
+ * salty_import_public_key.
+ * @returns The SHA-256 fingerprint as hex in groups of four.
+ * @throws Error if the key is not a supported public key
+ */
+export async function salty_key_fingerprint(
+  publicKey: CryptoKey,
+): Promise<string> {
+  const encoded = await encodePublicKey(publicKey);
+  if (!encoded) {
+    throw new Error("Unsupported public key");
+  }
+  return await fingerprintOf(encoded);
+}
+
+/**
+ * Result of salty_verify
+ */
+export interface SaltyVerifiedMessage {
+  /** The signed basE91 ciphertext, ready for salty_decrypt */
+  encrypted: string;
+  /** The signer's public key */
+  publicKey: CryptoKey;
+  /** The signer's key algorithm */
+  algorithm: SaltyKeyAlgorithm;
+  /** Fingerprint of the signer's public key */
+  fingerprint: string;
+}
+
+/**
+ * Signs a ciphertext envelope, proving who produced it. Anyone holding a
+ * shared key can forge a message, but not a signature.
+ *
+ * Armored body: basE91(algorithm(1) | signerPublicKey | signature(64) |
+ * envelope), signed over a domain prefix, the algorithm, the signer's
+ * public key and the envelope.
+ *
+ * @param encrypted The ciphertext to sign, in any encoding.
+ * @param keyPair An ECDSA P-256 or Ed25519 key pair.
+ * @returns The armored SALTY SIGNED MESSAGE block.
+ * @throws Error if the key pair is not a signing key pair or the ciphertext
+ * cannot be decoded
+ */
+export async function salty_sign(
+  encrypted: string,
+  keyPair: CryptoKeyPair,
+): Promise<string> {
+  const algorithm = keyAlgorithmOf(keyPair.privateKey);
+  const signParams = algorithm !== null
+    ? keyAlgorithms[algorithm].signParams
+    : undefined;
+  const signer = await encodePublicKey(keyPair.publicKey);
+  if (!signParams || !signer || signer[0] !== algorithm) {
+    throw new Error("Unsupported signing key");
+  }
+
+  const envelope = decodeCiphertext(encrypted);
+  if (!envelope || envelope.length === 0) {
+    throw new Error("Invalid ciphertext");
+  }
+
+  const signature = await crypto.subtle.sign(
+    signParams,
+    keyPair.privateKey,
+    concatBytes([SIGNATURE_DOMAIN, signer, envelope]),
+  );
+  return formatArmor(
+    SIGNED_MESSAGE_LABEL,
+    base91_encode(concatBytes([signer, new Uint8Array(signature), envelope])),
+  );
+}
+
+/**
+ * Verifies a signed message from salty_sign.
+ * @param signed The armored SALTY SIGNED MESSAGE block.
+ * @param publicKey The expected signer (optional). Without it, any valid
+ * signature is accepted, and the caller must check the returned fingerprint.
+ * @returns The ciphertext and signer, or null if the signature is invalid or
+ * the signer is not the expected key.
+ */
+export async function salty_verify(
+  signed: string,
+  publicKey?: CryptoKey,
+): Promise<SaltyVerifiedMessage | null> {
+  const body = dearmor(SIGNED_MESSAGE_LABEL, signed);
+  const data = body ? base91_decode(body) : null;
+  const algorithm: SaltyKeyAlgorithm | undefined = data?.[0];
+  const params = algorithm !== undefined ? keyAlgorithms[algorithm] : null;
+  if (!data || !params?.signParams) {
+    return null;
+  }
+
+  const signatureOffset = 1 + params.publicKeyLength;
+  const envelopeOffset = signatureOffset + SIGNATURE_LENGTH;
+  if (data.length <= envelopeOffset) {
+    return null;
+  }
+  const signer = data.subarray(0, signatureOffset);
+  const envelope = data.subarray(envelopeOffset);
+
+  if (publicKey) {
+    const expected = await encodePublicKey(publicKey);
+    if (!expected || !bytesEqual(expected, signer)) {
+      return null;
+    }
+  }
+
+  try {
+    const signerKey = await crypto.subtle.importKey(
+      "raw",
+      signer.slice(1),
+      params.params,
+      true,
+      params.publicUsages,
+    );
+    const valid = await crypto.subtle.verify(
+      params.signParams,
+      signerKey,
+      data.slice(signatureOffset, envelopeOffset),
+      concatBytes([SIGNATURE_DOMAIN, signer, envelope]),
+    );
+    if (!valid) {
+      return null;
+    }
+    return {
+      encrypted: base91_encode(envelope),
+      publicKey: signerKey,
+      algorithm: algorithm!,
+      fingerprint: await fingerprintOf(signer),
+    };
+  } catch (_e) {
+    // Invalid curve point
+    return null;
+  }
+}
+
+/** Default plaintext chunk size for streaming encryption (64 KiB) */
+export const STREAM_CHUNK_SIZE = 65536;
+
+/**
+ * Upper bound on the chunk size accepted from a stream header (4 MiB), which
+ * bounds the memory a stream decryptor needs
+ */
+const MAX_STREAM_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/** Length of the random nonce prefix written after a stream header */
+const STREAM_NONCE_PREFIX_LENGTH = 7;
+
+/** Largest chunk index representable in the 32-bit nonce counter */
+const MAX_STREAM_CHUNK_INDEX = 0xFFFFFFFF;
+
+/**
+ * Options for salty_encrypt_stream
+ */
+export interface SaltyStreamOptions
+  extends Omit<SaltyEncryptOptions, "padding" | "compression" | "encoding"> {
+  /** Plaintext bytes per chunk (defaults to 64 KiB) */
+  chunkSize?: number;
+}
+
+/**
+ * Bytes a stream has received but not yet processed. Chunks are kept as they
+ * arrive and read from an offset, so emitting a frame copies only that frame
+ * rather than everything still pending.
+ */
+interface SaltyChunkQueue {
+  /** Number of pending bytes */
+  readonly length: number;
+  /** Queues a copy of a chunk, so the caller may reuse its buffer */
+  push(chunk: Uint8Array): void;
+  /** Removes and returns up to the next n bytes */
+  take(n: number): Uint8Array<ArrayBuffer>;
+  /** Returns up to the next n bytes without removing them */
+  peek(n: number): Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Creates an empty chunk queue for a stream transform.
+ */
+function chunkQueue(): SaltyChunkQueue {
+  const chunks: Uint8Array[] = [];
+  let offset = 0; // read position in chunks[0]
+  let length = 0;
+
+  const read = (n: number, consume: boolean): Uint8Array<ArrayBuffer> => {
+    const out = new Uint8Array(Math.min(n, length));
+    let index = 0;
+    let position = offset;
+    let written = 0;
+    while (written < out.length) {
+      const chunk = chunks[index];
+      const count = Math.min(chunk.length - position, out.length - written);
+      out.set(chunk.subarray(position, position + count), written);
+      written += count;
+      position += count;
+      if (position === chunk.length) {
+        index++;
+        position = 0;
+      }
+    }
+    if (consume) {
+      chunks.splice(0, index);
+      offset = position;
+      length -= out.length;
+    }
+    return out;
+  };
+
+  return {
+    get length() {
+      return length;
+    },
+    push(chunk) {
+      if (chunk.length > 0) {
+        chunks.push(chunk.slice());
+        length += chunk.length;
+      }
+    },
+    take: (n) => read(n, true),
+    peek: (n) => read(n, false),
+  };
+}
+
+/**
+ * Builds the nonce for a stream chunk.
+ *
+ * Layout: prefix(7) | chunkIndex(4, big-endian) | finalFlag(1)
+ *
+ * @param prefix The random per-stream nonce prefix.
+ * @param index The chunk index.
+ * @param final Whether this is the last chunk of the stream.
+ * @returns The 12-byte AES-GCM nonce.
+ */
+function streamNonce(
+  prefix: Uint8Array,
+  index: number,
+  final: boolean,
+): Uint8Array<ArrayBuffer> {
+  if (index > MAX_STREAM_CHUNK_INDEX) {
+    throw new Error("Stream too long");
+  }
+  const nonce = new Uint8Array(IV_LENGTH);
+  nonce.set(prefix, 0);
+  new DataView(nonce.buffer).setUint32(STREAM_NONCE_PREFIX_LENGTH, index);
+  nonce[IV_LENGTH - 1] = final ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Returns the total stream header length once enough bytes have arrived to
+ * tell, or null if more bytes are needed.
+ * @param data The bytes received so far.
+ * @returns The stream header length, or null.
+ */
+function streamHeaderLength(data: Uint8Array): number | null {
+  if (data.length < 4) {
+    return null;
+  }
+  const saltLengthOffset = data[3] === SaltyKdf.ARGON2ID ? 13 : 8;
+  if (data.length <= saltLengthOffset) {
+    return null;
+  }
+  // envelope header | noncePrefix(7) | chunkSize(4)
+  return saltLengthOffset + 1 + data[saltLengthOffset] + 1 +
+    STREAM_NONCE_PREFIX_LENGTH + 4;
+}
+
+/**
+ * Creates a TransformStream that encrypts bytes in fixed-size chunks.
+ *
+ * Output layout: envelope header (STREAM flag) | noncePrefix(7) |
+ * chunkSize(4) | chunks. Each chunk is AES-GCM encrypted with a nonce
+ * derived from its index and a final-chunk flag, and authenticates the whole
+ * stream header (and options.context, if given), so chunks cannot be
+ * reordered, dropped or truncated without decryption failing. Memory use is
+ * bounded by the chunk size.
+ *
+ * @param key The passphrase, or a CryptoKey from salty_derive_key/salty_key.
+ * @param options Encryption options and chunk size.
+ * @returns A TransformStream from plaintext bytes to the encrypted stream.
+ * @throws Error if the chunk size is out of range
+ */
+export function salty_encrypt_stream(
+  key: string | CryptoKey,
+  options: SaltyStreamOptions = {},
+): TransformStream<Uint8Array, Uint8Array> {
+  const chunkSize = options.chunkSize ?? STREAM_CHUNK_SIZE;
+  if (
+    !Number.isInteger(chunkSize) || chunkSize < 1 ||
+    chunkSize > MAX_STREAM_CHUNK_SIZE
+  ) {
+    throw new Error("Invalid stream chunk size");
+  }
+
+  let cryptoKey: CryptoKey;
+  let streamHeader: Uint8Array;
+  let aad: Uint8Array<ArrayBuffer>;
+  let noncePrefix: Uint8Array;
+  const pending = chunkQueue();
+  let index = 0;
+
+  const encryptChunk = async (
+    plaintext: Uint8Array<ArrayBuffer>,
+    final: boolean,
+  ): Promise<Uint8Array> => {
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv: streamNonce(noncePrefix, index++, final),
+        additionalData: aad,
+        tagLength: TAG_LENGTH * 8,
+      },
+      cryptoKey,
+      plaintext,
+    );
+    return new Uint8Array(ciphertext);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async start(controller) {
+      cryptoKey = typeof key === "string"
+        ? await salty_derive_key(key, options.kdf, options.deriver)
+        : key;
+
+      const headerBytes = encodeKeyHeader(cryptoKey, SaltyFlag.STREAM);
+      noncePrefix = crypto.getRandomValues(
+        new Uint8Array(STREAM_NONCE_PREFIX_LENGTH),
+      );
+      streamHeader = new Uint8Array(
+        headerBytes.length + STREAM_NONCE_PREFIX_LENGTH + 4,
+      );
+      streamHeader.set(headerBytes, 0);
+      streamHeader.set(noncePrefix, headerBytes.length);
+      new DataView(streamHeader.buffer).setUint32(
+        headerBytes.length + STREAM_NONCE_PREFIX_LENGTH,
+        chunkSize,
+      );
+      aad = additionalData(streamHeader, options.context);
+      controller.enqueue(streamHeader);
+    },
+
+    async transform(chunk, controller) {
+      pending.push(chunk);
+      // Hold back the last chunk until flush, so it can be marked final
+      while (pending.length > chunkSize) {
+        controller.enqueue(await encryptChunk(pending.take(chunkSize), false));
+      }
+    },
+
+    async flush(controller) {
+      // Always emit a final chunk, even when it is empty
+      controller.enqueue(
+        await encryptChunk(pending.take(pending.length), true),
+      );
+    },
+  });
+}
+
+/**
+ * Creates a TransformStream that decrypts a stream produced by
+ * salty_encrypt_stream. Plaintext is released chunk by chunk as each chunk
+ * authenticates; the stream errors if any chunk fails to authenticate or the
+ * input ends before the final chunk.
+ *
+ * @param key The passphrase, or a CryptoKey from salty_derive_key/salty_key.
+ * @param options The context the stream was bound to, if any, and the most
+ * key derivation work to accept from its header.
+ * @returns A TransformStream from the encrypted stream to plaintext bytes.
+ */
+export function salty_decrypt_stream(
+  key: string | CryptoKey,
+  options: SaltyContextOptions & Pick<SaltyDecryptOptions, "maxKdfCost"> = {},
+): TransformStream<Uint8Array, Uint8Array> {
+  let cryptoKey: CryptoKey | null = null;
+  let streamHeader: Uint8Array | null = null;
+  let aad: Uint8Array<ArrayBuffer>;
+  let noncePrefix: Uint8Array;
+  let chunkSize = 0;
+  const pending = chunkQueue();
+  let index = 0;
+
+  /** Parses the stream header once enough bytes have arrived */
+  const readHeader = async (): Promise<boolean> => {
+    // The salt length, which sizes the header, is within the first 14 bytes
+    const length = streamHeaderLength(pending.peek(14));
+    if (length === null || pending.length < length) {
+      return false;
+    }
+
+    const header = pending.take(length);
+    const headerLength = length - STREAM_NONCE_PREFIX_LENGTH - 4;
+    const parsed = parseHeader(header.subarray(0, headerLength));
+    if (
+      !parsed || parsed.headerLength !== headerLength ||
+      parsed.header.flags !== SaltyFlag.STREAM
+    ) {
+      throw new Error("Invalid stream header");
+    }
+
+    chunkSize = new DataView(header.buffer).getUint32(length - 4);
+    if (chunkSize < 1 || chunkSize > MAX_STREAM_CHUNK_SIZE) {
+      throw new Error("Invalid stream header");
+    }
+
+    // The header names the KDF and its parameters
+    const { kdf, iterations, memory, parallelism, salt } = parsed.header;
+    const params = { kdf, iterations, memory, parallelism, salt };
+    if (typeof key !== "string") {
+      cryptoKey = key;
+    } else if (!withinKdfCost(params, options.maxKdfCost)) {
+      throw new Error("Stream key derivation is too costly");
+    } else if (kdf !== SaltyKdf.NONE) {
+      cryptoKey = await deriveKey(key, params);
+    } else {
+      throw new Error("Stream was encrypted with a key, not a passphrase");
+    }
+
+    streamHeader = header;
+    aad = additionalData(streamHeader, options.context);
+    noncePrefix = header.slice(
+      headerLength,
+      headerLength + STREAM_NONCE_PREFIX_LENGTH,
+    );
+    return true;
+  };
+
+  const decryptChunk = async (
+    ciphertext: Uint8Array<ArrayBuffer>,
+    final: boolean,
+  ): Promise<Uint8Array> => {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: streamNonce(noncePrefix, index++, final),
+          additionalData: aad,
+          tagLength: TAG_LENGTH * 8,
+        },
+        cryptoKey!,
+        ciphertext,
+      );
+      return new Uint8Array(plaintext);
+    } catch (_e) {
+      // Wrong key or context, tampering, reordering or truncation
+      throw new Error("Stream authentication failed");
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      pending.push(chunk);
+      if (!streamHeader && !await readHeader()) {
+        return;
+      }
+
+      // Keep at least one full chunk back; only the last one is final
+      const encryptedChunkSize = chunkSize + TAG_LENGTH;
+      while (pending.length > encryptedChunkSize) {
+        controller.enqueue(
+          await decryptChunk(pending.take(encryptedChunkSize), false),
+        );
+      }
+    },
+
+    async flush(controller) {
+      if (!streamHeader && !await readHeader()) {
+        throw new Error("Invalid stream header");
+      }
+      controller.enqueue(
+        await decryptChunk(pending.take(pending.length), true),
+      );
+    },
+  });
 }
@@ -416,8 +416,8 @@ async function checkCryptoSecurity(files: string[]): Promise<void> {
       console.log("  ✅ Using PBKDF2 for key derivation");
     }
 
-    // Check iteration count
-    const iterMatch = content.match(/iterations:\s*(\d+)/);
+    // Check the default PBKDF2 iteration count
+    const iterMatch = content.match(/PBKDF2_ITERATIONS\s*=\s*(\d+)/);
     if (iterMatch) {
       const iterations = parseInt(iterMatch[1]);
       if (iterations < 100000) {
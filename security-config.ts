@@ -4,6 +4,14 @@
  */
 
 import { LogLevel } from "./logger.ts";
+import {
+  ARGON2_ITERATIONS,
+  ARGON2_MEMORY_KIB,
+  MAX_ARGON2_ITERATIONS,
+  MAX_ARGON2_MEMORY_KIB,
+  MAX_ARGON2_PARALLELISM,
+  SaltyPadding,
+} from "./salty.ts";
 
 /**
  * Security configuration interface
@@ -39,8 +47,18 @@ export interface SecurityConfig {
     algorithm: "AES-GCM";
     /** Key size in bits */
     keySize: 256;
+    /** Key derivation function for new messages */
+    kdf: "argon2id" | "pbkdf2";
     /** PBKDF2 iterations */
     pbkdf2Iterations: number;
+    /** Argon2id memory size in KiB */
+    argon2MemoryKiB: number;
+    /** Argon2id time cost (passes over memory) */
+    argon2Iterations: number;
+    /** Argon2id parallelism (lanes) */
+    argon2Parallelism: number;
+    /** Default length-hiding padding for new messages */
+    padding: SaltyPadding;
     /** Salt length in bytes */
     saltLength: number;
     /** IV length in bytes */
@@ -147,7 +165,12 @@ export const defaultSecurityConfig: SecurityConfig = {
   encryption: {
     algorithm: "AES-GCM",
     keySize: 256,
+    kdf: "argon2id",
     pbkdf2Iterations: 600000,
+    argon2MemoryKiB: 19456,
+    argon2Iterations: 2,
+    argon2Parallelism: 1,
+    padding: SaltyPadding.NONE,
     saltLength: 16,
     ivLength: 12,
   },
@@ -257,6 +280,8 @@ export const strictSecurityConfig: SecurityConfig = {
   encryption: {
     ...defaultSecurityConfig.encryption,
     pbkdf2Iterations: 1000000,
+    argon2MemoryKiB: 65536,
+    padding: SaltyPadding.PADME,
   },
   validation: {
     ...defaultSecurityConfig.validation,
@@ -308,7 +333,44 @@ export function validateSecurityConfig(
     throw new Error("PBKDF2 iterations must be at least 100,000");
   }
 
+  if (!["argon2id", "pbkdf2"].includes(merged.encryption.kdf)) {
+    throw new Error("KDF must be argon2id or pbkdf2");
+  }
+
+  // Argon2id costs must meet the recommended minimum and stay within the
+  // limits salty_decrypt accepts, or new messages could not be decrypted
+  if (
+    merged.encryption.argon2MemoryKiB < ARGON2_MEMORY_KIB ||
+    merged.encryption.argon2MemoryKiB > MAX_ARGON2_MEMORY_KIB
+  ) {
+    throw new Error(
+      `Argon2id memory must be between ${ARGON2_MEMORY_KIB} and ${MAX_ARGON2_MEMORY_KIB} KiB`,
+    );
+  }
+
+  if (
+    merged.encryption.argon2Iterations < ARGON2_ITERATIONS ||
+    merged.encryption.argon2Iterations > MAX_ARGON2_ITERATIONS
+  ) {
+    throw new Error(
+      `Argon2id iterations must be between ${ARGON2_ITERATIONS} and ${MAX_ARGON2_ITERATIONS}`,
+    );
+  }
+
+  if (
+    merged.encryption.argon2Parallelism < 1 ||
+    merged.encryption.argon2Parallelism > MAX_ARGON2_PARALLELISM
+  ) {
+    throw new Error(
+      `Argon2id parallelism must be between 1 and ${MAX_ARGON2_PARALLELISM}`,
+    );
+  }
+
   // Validate key size
+  if (!Object.values(SaltyPadding).includes(merged.encryption.padding)) {
+    throw new Error("Padding must be none, padme or power-of-two");
+  }
+
   if (![128, 192, 256].includes(merged.encryption.keySize)) {
     throw new Error("Key size must be 128, 192, or 256 bits");
   }
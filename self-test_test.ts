@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Tests for the startup known-answer self-test
+ * @description The built-in vectors pass, and failing or throwing checks
+ * are reported by name
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { KNOWN_ANSWER_TESTS, runSelfTest } from "./self-test.ts";
+
+Deno.test("Self-Test - built-in vectors pass", async () => {
+  assertEquals(await runSelfTest(), { passed: true, failures: [] });
+  assertEquals(
+    KNOWN_ANSWER_TESTS.map((test) => test.name),
+    ["PBKDF2-SHA512", "AES-256-GCM", "basE91"],
+  );
+});
+
+Deno.test("Self-Test - failures are reported by name", async () => {
+  const result = await runSelfTest([
+    { name: "good", run: () => Promise.resolve(true) },
+    { name: "wrong", run: () => Promise.resolve(false) },
+    { name: "throws", run: () => Promise.reject(new Error("broken")) },
+  ]);
+
+  assertEquals(result, { passed: false, failures: ["wrong", "throws"] });
+});
@@ -3,7 +3,35 @@
  * @author eSolia Inc.
  */
 
-import { salty_decrypt, salty_encrypt, salty_key } from "./salty.ts";
+import {
+  ARGON2_ITERATIONS,
+  ARGON2_MEMORY_KIB,
+  PBKDF2_ITERATIONS,
+  SALT_LENGTH,
+  salty_decrypt,
+  salty_decrypt_stream,
+  salty_derive_key,
+  salty_encrypt,
+  salty_encrypt_recipients,
+  salty_encrypt_stream,
+  salty_import_public_key,
+  salty_rekey,
+  salty_verify,
+  SaltyCompression,
+  SaltyDecodeMode,
+  SaltyDecryptFailure,
+  SaltyEncoding,
+  type SaltyInvalidSymbol,
+  SaltyKdf,
+  type SaltyKdfCost,
+  type SaltyKdfOptions,
+  SaltyKeyAlgorithm,
+  SaltyPadding,
+} from "./salty.ts";
+import {
+  loadSecurityConfig,
+  validateSecurityConfig,
+} from "./security-config.ts";
 import {
   SECURITY_COMPLIANCE,
   SECURITY_INFO,
@@ -15,6 +43,31 @@ import { LogCategory, logger, SecurityEvent } from "./logger.ts";
 import { getTracer, TracingHelpers } from "./telemetry-native.ts";
 import { bundle } from "https://deno.land/x/emit@0.32.0/mod.ts";
 import { coverageTracker } from "./coverage-tracker.ts";
+import { DEFAULT_KEY_CACHE_MAX_ENTRIES, DerivedKeyCache } from "./key-cache.ts";
+import { KNOWN_ANSWER_TESTS, runSelfTest } from "./self-test.ts";
+import { salty_combine, salty_split } from "./shamir.ts";
+import {
+  API_VERSIONS,
+  type ApiVersion,
+  findRoute,
+  MAX_API_RECIPIENTS,
+  MAX_KEY_SIZE,
+  MAX_PAYLOAD_SIZE,
+  MAX_SHARED_PAYLOAD_SIZE,
+  resolveApiPath,
+  type SchemaError,
+  UNVERSIONED_DEPRECATION_DATE,
+  UNVERSIONED_SUNSET_DATE,
+  validateSchema,
+  versionedPath,
+} from "./api-schema.ts";
+import {
+  createProblemDetails,
+  PROBLEM_MEDIA_TYPE,
+  type ProblemDetails,
+} from "./api-errors.ts";
+import { buildOpenApiDocument, renderApiDocs } from "./openapi.ts";
+import { type Middleware, Router } from "./router.ts";
 
 // Initialize tracer (native telemetry when available)
 const tracer = await getTracer();
@@ -26,10 +79,79 @@ const tracer = await getTracer();
 const RATE_LIMIT_WINDOW = 60 * 60 * 1000;
 /** Maximum requests allowed per rate limit window */
 const RATE_LIMIT_MAX_REQUESTS = 20;
-/** Maximum payload size in bytes (1MB) */
-const MAX_PAYLOAD_SIZE = 1024 * 1024;
-/** Maximum key size in bytes (1KB) */
-const MAX_KEY_SIZE = 1024;
+/**
+ * Maximum access-tracking beacons allowed per rate limit window; each one
+ * fetches from dbFLEX, so they have a limit of their own
+ */
+const TRACK_ACCESS_RATE_LIMIT_MAX_REQUESTS = 60;
+/** OpenAPI document of each API version, served at /api/v{n}/openapi.json */
+const OPENAPI_JSON = Object.fromEntries(
+  API_VERSIONS.map((apiVersion) => {
+    const document = buildOpenApiDocument(VERSION, apiVersion);
+    return [apiVersion, JSON.stringify(document, null, 2)];
+  }),
+) as Record<ApiVersion, string>;
+/** API docs page of each API version, served at /api/v{n}/docs */
+const API_DOCS_HTML = Object.fromEntries(
+  API_VERSIONS.map((apiVersion) => [
+    apiVersion,
+    renderApiDocs(VERSION, apiVersion),
+  ]),
+) as Record<ApiVersion, string>;
+/**
+ * Request body bytes per rate-limit unit for batches (64KB); a batch counts
+ * as one request plus one per full unit
+ */
+const BATCH_RATE_LIMIT_UNIT = 64 * 1024;
+/** Maximum decompressed size of a decrypted message in bytes (16MB) */
+const MAX_DECOMPRESSED_SIZE = 16 * 1024 * 1024;
+/** Maximum streamed body size in bytes (1GB) */
+const MAX_STREAM_SIZE = 1024 * 1024 * 1024;
+/** Maximum access-tracking beacon size in bytes (8KB) */
+const MAX_TRACK_ACCESS_SIZE = 8 * 1024;
+/** Encryption settings; invalid KDF costs stop the server at startup */
+const ENCRYPTION_CONFIG =
+  validateSecurityConfig(loadSecurityConfig()).encryption;
+/** Key derivation used for new messages */
+const KDF_OPTIONS: SaltyKdfOptions = ENCRYPTION_CONFIG.kdf === "pbkdf2"
+  ? {
+    kdf: SaltyKdf.PBKDF2_SHA512,
+    iterations: ENCRYPTION_CONFIG.pbkdf2Iterations,
+  }
+  : {
+    kdf: SaltyKdf.ARGON2ID,
+    memory: ENCRYPTION_CONFIG.argon2MemoryKiB,
+    iterations: ENCRYPTION_CONFIG.argon2Iterations,
+    parallelism: ENCRYPTION_CONFIG.argon2Parallelism,
+  };
+/**
+ * Most KDF work a decryption accepts from a message header: the configured
+ * costs, or the library defaults where those are higher. Argon2id runs on
+ * the request thread, so a crafted header could otherwise stall the server.
+ */
+const MAX_KDF_COST: SaltyKdfCost = {
+  pbkdf2Iterations: Math.max(
+    ENCRYPTION_CONFIG.pbkdf2Iterations,
+    PBKDF2_ITERATIONS,
+  ),
+  argon2Memory: Math.max(ENCRYPTION_CONFIG.argon2MemoryKiB, ARGON2_MEMORY_KIB),
+  argon2Iterations: Math.max(
+    ENCRYPTION_CONFIG.argon2Iterations,
+    ARGON2_ITERATIONS,
+  ),
+};
+/**
+ * Cache of derived keys, off unless KEY_CACHE_TTL (seconds) is set; an
+ * invalid TTL or KEY_CACHE_MAX_ENTRIES stops the server at startup
+ */
+const keyCache = Deno.env.get("KEY_CACHE_TTL")
+  ? new DerivedKeyCache({
+    ttlMs: Number(Deno.env.get("KEY_CACHE_TTL")) * 1000,
+    maxEntries: Number(
+      Deno.env.get("KEY_CACHE_MAX_ENTRIES") ?? DEFAULT_KEY_CACHE_MAX_ENTRIES,
+    ),
+  })
+  : null;
 
 /**
  * Request body interface for encrypt/decrypt API endpoints
@@ -39,6 +161,18 @@ interface EncryptRequest {
   payload: string;
   /** The encryption/decryption key */
   key: string;
+  /** Context bound to the ciphertext as additional authenticated data */
+  context?: string;
+  /** Length-hiding padding for encryption (server default if omitted) */
+  padding?: SaltyPadding;
+  /** Compression before encryption (off if omitted) */
+  compression?: SaltyCompression;
+  /** Additional passphrases that can decrypt the message */
+  recipients?: string[];
+  /** Text encoding of the ciphertext (basE91 if omitted) */
+  output_format?: SaltyEncoding;
+  /** Handling of stray characters in basE91 payloads (lenient if omitted) */
+  decode_mode?: SaltyDecodeMode;
 }
 
 /**
@@ -46,13 +180,49 @@ interface EncryptRequest {
  */
 interface ApiResponse {
   /** Whether the operation was successful */
-  success: boolean;
-  /** Response data (encrypted/decrypted text) */
-  data?: string;
-  /** Error message if operation failed */
-  error?: string;
+  success: true;
+  /** Response data (encrypted/decrypted text, or a result object) */
+  data: string | Record<string, unknown>;
+  /** ISO timestamp of the response */
+  timestamp: string;
+}
+
+/**
+ * Metadata of every v2 response
+ */
+interface ApiMetaV2 {
+  /** The API version that handled the request */
+  apiVersion: "v2";
+  /** ISO timestamp of the response */
+  timestamp: string;
+}
+
+/**
+ * v2 API response envelope: the result and metadata
+ */
+interface ApiResponseV2 {
+  /** Response data (encrypted/decrypted text, or a result object) */
+  data: string | Record<string, unknown>;
+  meta: ApiMetaV2;
+}
+
+/**
+ * v1 problem details. The v1 error members stay beside the RFC 9457 ones,
+ * so v1 clients that read success, error and code keep working.
+ */
+interface ApiProblemV1 extends ProblemDetails {
+  success: false;
+  /** Human-readable error message, the same as detail */
+  error: string;
   /** ISO timestamp of the response */
-  timestamp?: string;
+  timestamp: string;
+}
+
+/**
+ * v2 problem details, with the metadata of every v2 response
+ */
+interface ApiProblemV2 extends ProblemDetails {
+  meta: ApiMetaV2;
 }
 
 /**
@@ -65,6 +235,17 @@ interface RateLimitEntry {
   windowStart: number;
 }
 
+/**
+ * A rate limit with its own count per client, so requests counted against
+ * one bucket never use up another's quota
+ */
+interface RateLimitBucket {
+  /** Name that keys the bucket's entries in the store */
+  name: string;
+  /** Maximum requests allowed per rate limit window */
+  maxRequests: number;
+}
+
 /**
  * dbFLEX tracking configuration interface
  */
@@ -79,11 +260,24 @@ interface DbflexConfig {
 
 /**
  * In-memory rate limiting store
- * @description Maps client IP addresses to their rate limit data
+ * @description Maps bucket names and client IP addresses to their rate
+ * limit data
  * @todo Consider using Redis for production scaling across multiple instances
  */
 const rateLimitStore = new Map<string, RateLimitEntry>();
 
+/** Rate limit of the API endpoints */
+const API_RATE_LIMIT: RateLimitBucket = {
+  name: "api",
+  maxRequests: RATE_LIMIT_MAX_REQUESTS,
+};
+
+/** Rate limit of the access-tracking beacon */
+const TRACK_ACCESS_RATE_LIMIT: RateLimitBucket = {
+  name: "track-access",
+  maxRequests: TRACK_ACCESS_RATE_LIMIT_MAX_REQUESTS,
+};
+
 /**
  * Gets the dbFLEX configuration from environment variables
  * @returns The dbFLEX configuration object
@@ -123,11 +317,15 @@ class SecurityUtils {
   /**
    * Validates that the request has the correct content type for API endpoints
    * @param request - The incoming HTTP request
-   * @returns True if content type is application/json, false otherwise
+   * @param mediaType - The expected content type (default application/json)
+   * @returns True if the content type is the expected one, false otherwise
    */
-  static isValidContentType(request: Request): boolean {
+  static isValidContentType(
+    request: Request,
+    mediaType = "application/json",
+  ): boolean {
     const contentType = request.headers.get("content-type");
-    return contentType === "application/json";
+    return contentType === mediaType;
   }
 
   /**
@@ -216,7 +414,10 @@ class SecurityUtils {
 
     // CORS headers
     headers.set("Access-Control-Allow-Methods", "POST, OPTIONS");
-    headers.set("Access-Control-Allow-Headers", "Content-Type, X-API-Key");
+    headers.set(
+      "Access-Control-Allow-Headers",
+      "Content-Type, X-API-Key, X-Salty-Key",
+    );
     headers.set("Access-Control-Max-Age", "86400"); // 24 hours
     headers.set("Access-Control-Allow-Credentials", "false");
 
@@ -293,36 +494,45 @@ class RateLimiter {
   /**
    * Checks if a client IP has exceeded the rate limit
    * @param clientIP - The client's IP address
+   * @param weight - Requests this one counts as (default: 1)
+   * @param bucket - The rate limit to count against (default: the API's)
    * @returns True if the request is allowed, false if rate limit exceeded
    */
-  static checkRateLimit(clientIP: string): boolean {
+  static checkRateLimit(
+    clientIP: string,
+    weight = 1,
+    bucket: RateLimitBucket = API_RATE_LIMIT,
+  ): boolean {
     const now = Date.now();
-    const entry = rateLimitStore.get(clientIP);
+    const key = `${bucket.name}:${clientIP}`;
+    const entry = rateLimitStore.get(key);
 
     if (!entry || (now - entry.windowStart) > RATE_LIMIT_WINDOW) {
       // New window or first request
-      rateLimitStore.set(clientIP, {
-        count: 1,
+      rateLimitStore.set(key, {
+        count: weight,
         windowStart: now,
       });
       return true;
     }
 
-    if (entry.count >= RATE_LIMIT_MAX_REQUESTS) {
+    if (entry.count + weight > bucket.maxRequests) {
       logger.security(
         SecurityEvent.RATE_LIMIT_EXCEEDED,
         `Rate limit exceeded for IP: ${clientIP}`,
         {
           clientIP,
           count: entry.count,
+          weight,
           windowStart: entry.windowStart,
-          limit: RATE_LIMIT_MAX_REQUESTS,
+          bucket: bucket.name,
+          limit: bucket.maxRequests,
         },
       );
       return false;
     }
 
-    entry.count++;
+    entry.count += weight;
     return true;
   }
 
@@ -331,9 +541,9 @@ class RateLimiter {
    */
   static cleanupExpiredEntries(): void {
     const now = Date.now();
-    for (const [ip, entry] of rateLimitStore.entries()) {
+    for (const [key, entry] of rateLimitStore.entries()) {
       if ((now - entry.windowStart) > RATE_LIMIT_WINDOW) {
-        rateLimitStore.delete(ip);
+        rateLimitStore.delete(key);
       }
     }
   }
@@ -348,11 +558,13 @@ class ApiError extends Error {
    * @param message - Human-readable error message
    * @param statusCode - HTTP status code (default: 500)
    * @param code - Machine-readable error code (default: 'INTERNAL_ERROR')
+   * @param details - Structured details returned to the client (optional)
    */
   constructor(
     message: string,
     public statusCode: number = 500,
     public code: string = "INTERNAL_ERROR",
+    public details?: Record<string, unknown>,
   ) {
     super(message);
     this.name = "ApiError";
@@ -360,26 +572,66 @@ class ApiError extends Error {
 }
 
 /**
- * Validates basic API request properties (method, content-type, size)
- * @param request - The incoming HTTP request
- * @throws ApiError if validation fails
+ * Maps a decryption failure to an API error, so clients can tell a wrong
+ * key from damaged data
+ * @param failure - The reason reported by salty_decrypt
+ * @param hasContext - Whether the request supplied a context
+ * @param invalidSymbol - The first invalid basE91 character, if any
+ * @returns ApiError with a failure-specific code
  */
-function validateApiRequest(request: Request): void {
-  if (request.method !== "POST") {
-    throw new ApiError("Method not allowed", 405, "METHOD_NOT_ALLOWED");
-  }
-
-  if (!SecurityUtils.isValidContentType(request)) {
-    throw new ApiError(
-      "Invalid content type. Expected application/json",
-      400,
-      "INVALID_CONTENT_TYPE",
-    );
-  }
-
-  const contentLength = request.headers.get("content-length");
-  if (contentLength && parseInt(contentLength) > MAX_PAYLOAD_SIZE) {
-    throw new ApiError("Request too large", 413, "REQUEST_TOO_LARGE");
+function decryptFailureError(
+  failure: SaltyDecryptFailure,
+  hasContext: boolean,
+  invalidSymbol?: SaltyInvalidSymbol,
+): ApiError {
+  switch (failure) {
+    case SaltyDecryptFailure.WRONG_KEY:
+      return new ApiError("Decryption failed - wrong key", 400, "WRONG_KEY");
+    case SaltyDecryptFailure.CORRUPTED:
+      return new ApiError(
+        hasContext
+          ? "Decryption failed - wrong context, or corrupted or truncated data"
+          : "Decryption failed - corrupted or truncated data",
+        400,
+        "CORRUPTED_DATA",
+      );
+    case SaltyDecryptFailure.TOO_COSTLY:
+      return new ApiError(
+        "Decryption failed - the message's key derivation costs or recipient count exceed the server's limits",
+        400,
+        "KDF_COST_EXCEEDED",
+      );
+    case SaltyDecryptFailure.CHECKSUM_MISMATCH:
+      return new ApiError(
+        "Decryption failed - armor checksum mismatch, the message was changed in transit",
+        400,
+        "ARMOR_CHECKSUM_MISMATCH",
+      );
+    case SaltyDecryptFailure.MALFORMED:
+      if (invalidSymbol) {
+        // Points users at the character their paste mangled
+        return new ApiError(
+          `Decryption failed - invalid character ${
+            JSON.stringify(invalidSymbol.character)
+          } at line ${invalidSymbol.line}, column ${invalidSymbol.column}`,
+          400,
+          "INVALID_CHARACTER",
+          { ...invalidSymbol },
+        );
+      }
+      return new ApiError(
+        "Decryption failed - payload is not a Salty message",
+        400,
+        "MALFORMED_PAYLOAD",
+      );
+    default:
+      return new ApiError(
+        hasContext
+          ? "Decryption failed - wrong key or context, or corrupted data"
+          : "Decryption failed - wrong key or corrupted data",
+        400,
+        "DECRYPT_FAILED",
+      );
   }
 }
 
@@ -422,12 +674,61 @@ function validateApiKey(request: Request): void {
 }
 
 /**
- * Validates and sanitizes the request body for encrypt/decrypt operations
+ * Validates a parsed JSON body against its route's schema in the API
+ * registry (api-schema.ts)
+ * @param path - The route path, such as '/api/encrypt'
+ * @param body - The parsed JSON body
+ * @param request - The incoming HTTP request (for logging)
+ * @throws ApiError with the code and message of the first schema error
+ */
+function validateRouteBody(
+  path: string,
+  body: unknown,
+  request: Request,
+): void {
+  const schema = findRoute(path)?.body;
+  const [error] = schema ? validateSchema(body, schema) : [];
+  if (error) {
+    throw schemaError(error, path, request);
+  }
+}
+
+/**
+ * Logs a request body that does not match its schema
+ * @param error - The schema error
+ * @param path - The route path
+ * @param request - The incoming HTTP request (for logging)
+ * @returns ApiError to throw or report
+ */
+function schemaError(
+  error: SchemaError,
+  path: string,
+  request: Request,
+): ApiError {
+  logger.security(
+    SecurityEvent.MALFORMED_INPUT,
+    "Request body does not match its schema",
+    {
+      clientIP: SecurityUtils.getClientIP(request),
+      endpoint: path,
+      field: error.path.join("."),
+      code: error.code,
+    },
+  );
+  return new ApiError(error.message, 400, error.code);
+}
+
+/**
+ * Parses and validates the request body for encrypt/decrypt operations
  * @param request - The incoming HTTP request
+ * @param path - The route path, whose schema the body must match
  * @returns Validated and sanitized request data
  * @throws ApiError if validation fails
  */
-function validateRequestBody(request: Request): Promise<EncryptRequest> {
+function validateRequestBody(
+  request: Request,
+  path: string,
+): Promise<EncryptRequest> {
   return TracingHelpers.traceValidation("body-parsing", async () => {
     let body;
 
@@ -445,529 +746,1257 @@ function validateRequestBody(request: Request): Promise<EncryptRequest> {
       throw new ApiError("Invalid JSON in request body", 400, "INVALID_JSON");
     }
 
-    if (!body || typeof body !== "object") {
-      logger.security(
-        SecurityEvent.MALFORMED_INPUT,
-        "Request body is not a JSON object",
-        {
-          clientIP: SecurityUtils.getClientIP(request),
-          bodyType: typeof body,
-        },
-      );
-      throw new ApiError(
-        "Request body must be a JSON object",
-        400,
-        "INVALID_BODY",
-      );
-    }
-
-    const { payload, key } = body;
-
-    if (!payload || typeof payload !== "string") {
-      logger.security(
-        SecurityEvent.MALFORMED_INPUT,
-        "Missing or invalid payload field",
-        {
-          clientIP: SecurityUtils.getClientIP(request),
-          hasPayload: !!payload,
-          payloadType: typeof payload,
-          payloadConstructor: payload?.constructor?.name || "unknown",
-          payloadValue: String(payload).substring(0, 100),
-        },
-      );
-      throw new ApiError(
-        "Missing or invalid payload field",
-        400,
-        "INVALID_PAYLOAD",
-      );
-    }
-
-    if (!key || typeof key !== "string") {
-      logger.security(
-        SecurityEvent.MALFORMED_INPUT,
-        "Missing or invalid key field",
-        {
-          clientIP: SecurityUtils.getClientIP(request),
-          hasKey: !!key,
-          keyType: typeof key,
-          keyConstructor: key?.constructor?.name || "unknown",
-        },
-      );
-      throw new ApiError("Missing or invalid key field", 400, "INVALID_KEY");
-    }
-
-    // Sanitize inputs with tracing - ensure Promises are resolved
-    const sanitizedPayload = await TracingHelpers.traceSecurity(
-      "input-sanitization",
-      async () => {
-        // Ensure payload is resolved if it's a Promise
-        const resolvedPayload = await Promise.resolve(payload);
-        if (typeof resolvedPayload !== "string") {
-          throw new Error(
-            `Payload resolved to ${typeof resolvedPayload}, expected string`,
-          );
-        }
-        return SecurityUtils.sanitizeInput(resolvedPayload, MAX_PAYLOAD_SIZE);
-      },
-      {
-        "input.type": "payload",
-        "input.length": typeof payload === "string"
-          ? payload.length
-          : "unknown",
-      },
-    );
-
-    const sanitizedKey = await TracingHelpers.traceSecurity(
-      "input-sanitization",
-      async () => {
-        // Ensure key is resolved if it's a Promise
-        const resolvedKey = await Promise.resolve(key);
-        if (typeof resolvedKey !== "string") {
-          throw new Error(
-            `Key resolved to ${typeof resolvedKey}, expected string`,
-          );
-        }
-        return SecurityUtils.sanitizeInput(resolvedKey, MAX_KEY_SIZE);
-      },
-      {
-        "input.type": "key",
-        "input.length": typeof key === "string" ? key.length : "unknown",
-      },
-    );
-
-    return {
-      payload: sanitizedPayload,
-      key: sanitizedKey,
-    };
+    validateRouteBody(path, body, request);
+    return await sanitizeRequestFields(body);
   }, {
     "client.ip": SecurityUtils.getClientIP(request),
     "content_type": request.headers.get("content-type") || "unknown",
   });
 }
 
+/**
+ * Sanitizes the fields of an encrypt/decrypt request or of one batch
+ * operation, once they have matched the route's schema
+ * @param fields - The validated request body or batch operation
+ * @returns Sanitized request data
+ */
+async function sanitizeRequestFields(
+  fields: EncryptRequest,
+): Promise<EncryptRequest> {
+  const {
+    payload,
+    key,
+    context,
+    padding,
+    compression,
+    recipients,
+    output_format,
+    decode_mode,
+  } = fields;
+
+  // Sanitize inputs with tracing - ensure Promises are resolved
+  const sanitizedPayload = await TracingHelpers.traceSecurity(
+    "input-sanitization",
+    async () => {
+      // Ensure payload is resolved if it's a Promise
+      const resolvedPayload = await Promise.resolve(payload);
+      if (typeof resolvedPayload !== "string") {
+        throw new Error(
+          `Payload resolved to ${typeof resolvedPayload}, expected string`,
+        );
+      }
+      return SecurityUtils.sanitizeInput(resolvedPayload, MAX_PAYLOAD_SIZE);
+    },
+    {
+      "input.type": "payload",
+      "input.length": typeof payload === "string" ? payload.length : "unknown",
+    },
+  );
+
+  const sanitizedKey = await TracingHelpers.traceSecurity(
+    "input-sanitization",
+    async () => {
+      // Ensure key is resolved if it's a Promise
+      const resolvedKey = await Promise.resolve(key);
+      if (typeof resolvedKey !== "string") {
+        throw new Error(
+          `Key resolved to ${typeof resolvedKey}, expected string`,
+        );
+      }
+      return SecurityUtils.sanitizeInput(resolvedKey, MAX_KEY_SIZE);
+    },
+    {
+      "input.type": "key",
+      "input.length": typeof key === "string" ? key.length : "unknown",
+    },
+  );
+
+  // The context is authenticated byte for byte, so it is passed through
+  // unsanitized; it is never echoed back or rendered
+  return {
+    payload: sanitizedPayload,
+    key: sanitizedKey,
+    context,
+    padding,
+    compression,
+    output_format,
+    decode_mode,
+    // Sanitized like the key, so each recipient decrypts with the same
+    // passphrase it would send as a key
+    recipients: recipients?.map((recipient: string) =>
+      SecurityUtils.sanitizeInput(recipient, MAX_KEY_SIZE)
+    ),
+  };
+}
+
 /**
  * Creates a standardized API response with security headers
- * @param success - Whether the operation was successful
- * @param data - Response data (for successful operations)
- * @param error - Error message (for failed operations)
- * @param request - The original request (for CORS headers)
- * @returns HTTP Response object with proper headers and status code
+ * @param data - Response data (encrypted/decrypted text, or a result object)
+ * @param request - The original request (for the API version, whose
+ * envelope is used)
+ * @returns HTTP Response object with proper headers
  */
 function createApiResponse(
-  success: boolean,
-  data?: string,
-  error?: string,
-  request?: Request,
+  data: string | Record<string, unknown>,
+  request: Request,
 ): Response {
-  const response: ApiResponse = {
-    success,
-    timestamp: new Date().toISOString(),
-  };
+  const timestamp = new Date().toISOString();
+  const apiVersion = resolveApiPath(new URL(request.url).pathname).version;
+  const response: ApiResponse | ApiResponseV2 = apiVersion === "v2"
+    ? { data, meta: { apiVersion, timestamp } }
+    : { success: true, timestamp, data };
 
-  if (success && data !== undefined) {
-    response.data = data;
-  }
+  const headers = SecurityUtils.createSecurityHeaders();
+  headers.set("Content-Type", "application/json");
 
-  if (!success && error) {
-    response.error = error;
-  }
+  return new Response(JSON.stringify(response), { headers });
+}
+
+/**
+ * Creates an RFC 9457 problem details response for a failed API request,
+ * with the error's own status and code (see the catalogue in api-errors.ts)
+ * @param error - The failure
+ * @param request - The original request (for the API version, whose
+ * envelope and docs are used)
+ * @param requestId - ID of the request in the logs
+ * @returns HTTP Response with an application/problem+json body
+ */
+function createErrorResponse(
+  error: ApiError,
+  request: Request,
+  requestId: string,
+): Response {
+  const timestamp = new Date().toISOString();
+  const apiVersion = resolveApiPath(new URL(request.url).pathname).version;
+  const problem = createProblemDetails(error, requestId, apiVersion);
+  const response: ApiProblemV1 | ApiProblemV2 = apiVersion === "v2"
+    ? { ...problem, meta: { apiVersion, timestamp } }
+    : { ...problem, success: false, error: error.message, timestamp };
 
   const headers = SecurityUtils.createSecurityHeaders();
-  headers.set("Content-Type", "application/json");
+  headers.set("Content-Type", PROBLEM_MEDIA_TYPE);
 
-  // Add CORS headers for API responses
-  const corsHeaders = SecurityUtils.createCorsHeaders(request);
-  for (const [key, value] of corsHeaders.entries()) {
-    headers.set(key, value);
+  return new Response(JSON.stringify(response), {
+    status: error.statusCode,
+    headers,
+  });
+}
+
+/**
+ * Runs one encrypt or decrypt operation on validated fields, with tracing,
+ * metrics and security logging. Shared by the single and batch endpoints.
+ * @param operation - Whether to 'encrypt' or 'decrypt' the payload
+ * @param fields - Validated and sanitized request data
+ * @param log - Client IP and request ID for logging
+ * @param cache - Derived-key cache to use (defaults to the server's)
+ * @returns The ciphertext or plaintext
+ * @throws ApiError if the operation fails
+ */
+async function performCryptoOperation(
+  operation: "encrypt" | "decrypt",
+  fields: EncryptRequest,
+  log: { clientIP: string; requestId: string },
+  cache: DerivedKeyCache | null = keyCache,
+): Promise<string> {
+  const {
+    payload,
+    key,
+    context,
+    padding,
+    compression,
+    recipients,
+    output_format,
+    decode_mode,
+  } = fields;
+  const { clientIP, requestId } = log;
+  let result: string;
+
+  try {
+    // The server-wide salt is only needed for legacy header-less messages
+    const legacySaltHex = Deno.env.get("SALT_HEX");
+
+    // Encryption/decryption with tracing
+    if (operation === "encrypt") {
+      // Key derivation with tracing (fresh random salt per message,
+      // or per cache lifetime when the key cache is on)
+      const cryptoKey = await TracingHelpers.traceCrypto(
+        "key-derivation",
+        async () => {
+          return cache
+            ? await cache.encryptionKey(key, KDF_OPTIONS)
+            : await salty_derive_key(key, KDF_OPTIONS);
+        },
+        {
+          "crypto.kdf": ENCRYPTION_CONFIG.kdf,
+          "crypto.salt_length": SALT_LENGTH,
+          "crypto.key_length": key.length,
+          "crypto.key_cache": !!cache,
+        },
+      );
+
+      result = await TracingHelpers.traceCrypto("encrypt", async () => {
+        const options = {
+          context,
+          padding: padding ?? ENCRYPTION_CONFIG.padding,
+          compression,
+          encoding: output_format,
+        };
+        // With recipients, the key becomes the first of several that
+        // can each unwrap the content key
+        const encrypted = recipients
+          ? await salty_encrypt_recipients(
+            payload,
+            [cryptoKey, ...recipients],
+            { ...options, kdf: KDF_OPTIONS },
+          )
+          : await salty_encrypt(payload, cryptoKey, options);
+        logger.info(`Encryption successful`, {
+          originalLength: payload.length,
+          encryptedLength: encrypted.length,
+        }, LogCategory.CRYPTO);
+        return encrypted;
+      }, {
+        "crypto.payload_length": payload.length,
+        "crypto.algorithm": "AES-GCM",
+        "crypto.recipients": 1 + (recipients?.length ?? 0),
+        "crypto.encoding": output_format ?? SaltyEncoding.BASE91,
+      });
+    } else {
+      result = await TracingHelpers.traceCrypto("decrypt", async () => {
+        // Add detailed logging for decrypt operation
+        logger.info(`Starting decryption`, {
+          encryptedLength: typeof payload === "string" ? payload.length : "N/A",
+          keyLength: key.length,
+          payloadType: typeof payload,
+          payloadConstructor: payload?.constructor?.name || "unknown",
+        }, LogCategory.CRYPTO);
+
+        // Key is derived from the salt carried in the message
+        let failure = SaltyDecryptFailure.UNKNOWN;
+        let invalidSymbol: SaltyInvalidSymbol | undefined;
+        const decrypted = await salty_decrypt(payload, key, {
+          legacySaltHex,
+          context,
+          maxDecompressedSize: MAX_DECOMPRESSED_SIZE,
+          maxKdfCost: MAX_KDF_COST,
+          maxRecipients: MAX_API_RECIPIENTS + 1,
+          decodeMode: decode_mode,
+          keyCache: cache ?? undefined,
+          onFailure: (reason) => failure = reason,
+          onInvalidSymbol: (symbol) => invalidSymbol = symbol,
+        });
+
+        if (decrypted === null) {
+          logger.error(
+            `Decryption returned null - ${failure}`,
+            undefined,
+            {
+              payloadLength: payload.length,
+              hasContext: !!context,
+              failure,
+            },
+            LogCategory.CRYPTO,
+          );
+          throw decryptFailureError(failure, !!context, invalidSymbol);
+        }
+
+        logger.info(`Decryption successful`, {
+          encryptedLength: payload.length,
+          decryptedLength: decrypted.length,
+        }, LogCategory.CRYPTO);
+        return decrypted;
+      }, {
+        "crypto.payload_length": payload.length,
+        "crypto.algorithm": "AES-GCM",
+      });
+    }
+
+    // Record success metrics
+    tracer.recordMetric(`crypto.${operation}.success`, 1, {
+      "operation": operation,
+      "payload_size": payload.length,
+      "result_size": result.length,
+    });
+  } catch (cryptoError) {
+    // Record crypto failure metrics
+    tracer.recordMetric(`crypto.${operation}.failure`, 1, {
+      "operation": operation,
+      "error_type": cryptoError instanceof Error
+        ? cryptoError.constructor.name
+        : "Unknown",
+    });
+
+    const errorMessage = cryptoError instanceof Error
+      ? cryptoError.message
+      : String(cryptoError);
+
+    logger.security(
+      SecurityEvent.CRYPTO_FAILURE,
+      `Crypto operation failed: ${operation}`,
+      {
+        operation,
+        clientIP,
+        error: errorMessage,
+        payloadLength: payload.length,
+        keyLength: key.length,
+        requestId,
+      },
+    );
+
+    // Decryption failures already carry a specific code
+    if (cryptoError instanceof ApiError) {
+      throw cryptoError;
+    }
+    throw new ApiError(
+      `${operation} operation failed: ${errorMessage}`,
+      400,
+      `${operation.toUpperCase()}_FAILED`,
+    );
   }
 
-  return new Response(
-    JSON.stringify(response),
-    {
-      headers,
-      status: success
-        ? 200
-        : (error?.includes("401")
-          ? 401
-          : error?.includes("405")
-          ? 405
-          : error?.includes("413")
-          ? 413
-          : 400),
-    },
-  );
+  return result;
 }
 
 /**
  * Handles encrypt and decrypt API requests with comprehensive security checks
  * @param request - The incoming HTTP request
+ * @param context - Request context with the client IP and request ID
  * @param operation - Whether to 'encrypt' or 'decrypt' the payload
  * @returns HTTP Response with the operation result or error
  */
-function handleApiRequest(
+async function handleApiRequest(
   request: Request,
+  context: RequestContext,
   operation: "encrypt" | "decrypt",
 ): Promise<Response> {
-  return TracingHelpers.traceAPI("request-handler", async () => {
-    const startTime = performance.now();
-    const clientIP = SecurityUtils.getClientIP(request);
-    const requestId = logger.generateRequestId();
-
-    // Track function coverage
-    coverageTracker.trackFunction(
-      operation === "encrypt" ? "handleEncrypt" : "handleDecrypt",
-    );
+  const startTime = performance.now();
+  const { clientIP, requestId } = context;
 
-    // Add request context to tracing
-    tracer.addSpanAttributes({
-      "http.method": "POST",
-      "http.url": request.url,
-      "http.route": `/api/${operation}`,
-      "client.ip": clientIP,
-      "request.id": requestId,
-    });
+  // Track function coverage
+  coverageTracker.trackFunction(
+    operation === "encrypt" ? "handleEncrypt" : "handleDecrypt",
+  );
 
-    try {
-      // Check for suspicious activity patterns with tracing (skip if API key provided)
-      const hasValidApiKey = !!request.headers.get("X-API-Key") &&
-        !!Deno.env.get("API_KEY");
-      if (!hasValidApiKey) {
-        await TracingHelpers.traceSecurity("suspicious-activity", () => {
-          logger.detectSuspiciousActivity(clientIP);
-        }, { "client.ip": clientIP });
-      }
+  // Add request context to tracing
+  tracer.addSpanAttributes({
+    "http.method": "POST",
+    "http.url": request.url,
+    "http.route": `/api/${operation}`,
+    "client.ip": clientIP,
+    "request.id": requestId,
+  });
 
-      // Rate limiting check
-      if (!RateLimiter.checkRateLimit(clientIP)) {
-        throw new ApiError("Rate limit exceeded", 429, "RATE_LIMIT_EXCEEDED");
-      }
+  try {
+    // Check for suspicious activity patterns with tracing (skip if API key provided)
+    const hasValidApiKey = !!request.headers.get("X-API-Key") &&
+      !!Deno.env.get("API_KEY");
+    if (!hasValidApiKey) {
+      await TracingHelpers.traceSecurity("suspicious-activity", () => {
+        logger.detectSuspiciousActivity(clientIP);
+      }, { "client.ip": clientIP });
+    }
 
-      // Validate request
-      TracingHelpers.traceValidation("request", () => {
-        validateApiRequest(request);
-      }, { "http.method": request.method });
+    // Body validation (already traced)
+    const fields = await validateRequestBody(request, `/api/${operation}`);
+    const { payload } = fields;
 
-      // API key validation
-      validateApiKey(request);
+    // Perform crypto operations with detailed tracing
+    const result = await performCryptoOperation(operation, fields, {
+      clientIP,
+      requestId,
+    });
 
-      // Body validation (already traced)
-      const { payload, key } = await validateRequestBody(request);
+    // Create response with tracing
+    const response = await TracingHelpers.traceAPI(
+      "response-creation",
+      () => {
+        return createApiResponse(result, request);
+      },
+      {
+        "response.success": true,
+        "response.result_length": result.length,
+      },
+    );
 
-      // Perform crypto operations with detailed tracing
-      let result: string;
+    // Log successful operation
+    const responseTime = performance.now() - startTime;
+    logger.apiRequest(
+      "POST",
+      `/api/${operation}`,
+      200,
+      responseTime,
+      clientIP,
+      requestId,
+      {
+        payloadLength: payload.length,
+        resultLength: result.length,
+        operation,
+      },
+    );
 
-      try {
-        // Get the salt from environment
-        const saltHex = Deno.env.get("SALT_HEX");
-        if (!saltHex) {
-          throw new Error("SALT_HEX environment variable not found");
-        }
+    // Record performance metrics
+    tracer.recordMetric("api.request.duration", responseTime, {
+      "operation": operation,
+      "status": "success",
+    });
 
-        // Key derivation with tracing
-        const cryptoKey = await TracingHelpers.traceCrypto(
-          "key-derivation",
-          async () => {
-            return await salty_key(key, saltHex);
-          },
-          {
-            "crypto.salt_length": saltHex.length,
-            "crypto.key_length": key.length,
-          },
-        );
+    return response;
+  } catch (error) {
+    const responseTime = performance.now() - startTime;
 
-        // Encryption/decryption with tracing
-        if (operation === "encrypt") {
-          result = await TracingHelpers.traceCrypto("encrypt", async () => {
-            const encrypted = await salty_encrypt(payload, cryptoKey);
-            logger.info(`Encryption successful`, {
-              originalLength: payload.length,
-              encryptedLength: encrypted.length,
-              payloadPreview: String(payload).substring(0, 20) +
-                (String(payload).length > 20 ? "..." : ""),
-              encryptedPreview: String(encrypted).substring(0, 20) +
-                (String(encrypted).length > 20 ? "..." : ""),
-            }, LogCategory.CRYPTO);
-            return encrypted;
-          }, {
-            "crypto.payload_length": payload.length,
-            "crypto.algorithm": "AES-GCM",
-          });
-        } else {
-          result = await TracingHelpers.traceCrypto("decrypt", async () => {
-            // Add detailed logging for decrypt operation
-            logger.info(`Starting decryption`, {
-              encryptedLength: typeof payload === "string"
-                ? payload.length
-                : "N/A",
-              encryptedPreview: typeof payload === "string"
-                ? payload.substring(0, 20) + (payload.length > 20 ? "..." : "")
-                : String(payload),
-              keyLength: key.length,
-              payloadType: typeof payload,
-              payloadConstructor: payload?.constructor?.name || "unknown",
-            }, LogCategory.CRYPTO);
-
-            const decrypted = await salty_decrypt(payload, cryptoKey);
-
-            if (decrypted === null) {
-              logger.error(
-                `Decryption returned null - basE91 decode likely failed`,
-                undefined,
-                {
-                  payloadLength: payload.length,
-                  payloadSample: String(payload).substring(0, 50),
-                },
-                LogCategory.CRYPTO,
-              );
-              throw new Error(
-                "Decryption failed - invalid basE91 or corrupted data",
-              );
-            }
-
-            logger.info(`Decryption successful`, {
-              encryptedLength: payload.length,
-              decryptedLength: decrypted.length,
-              encryptedPreview: String(payload).substring(0, 20) +
-                (String(payload).length > 20 ? "..." : ""),
-              decryptedPreview: String(decrypted).substring(0, 20) +
-                (String(decrypted).length > 20 ? "..." : ""),
-            }, LogCategory.CRYPTO);
-            return decrypted;
-          }, {
-            "crypto.payload_length": payload.length,
-            "crypto.algorithm": "AES-GCM",
-          });
-        }
+    if (error instanceof ApiError) {
+      // Log API-specific errors
+      logger.apiRequest(
+        "POST",
+        `/api/${operation}`,
+        error.statusCode,
+        responseTime,
+        clientIP,
+        requestId,
+        {
+          error: error.message,
+          code: error.code,
+          operation,
+        },
+      );
 
-        // Record success metrics
-        tracer.recordMetric(`crypto.${operation}.success`, 1, {
-          "operation": operation,
-          "payload_size": payload.length,
-          "result_size": result.length,
-        });
-      } catch (cryptoError) {
-        // Record crypto failure metrics
-        tracer.recordMetric(`crypto.${operation}.failure`, 1, {
-          "operation": operation,
-          "error_type": cryptoError instanceof Error
-            ? cryptoError.constructor.name
-            : "Unknown",
-        });
+      // Record error metrics
+      tracer.recordMetric("api.request.error", 1, {
+        "operation": operation,
+        "error_code": error.code,
+        "status_code": error.statusCode.toString(),
+      });
 
-        const errorMessage = cryptoError instanceof Error
-          ? cryptoError.message
-          : String(cryptoError);
+      const errorResponse = TracingHelpers.traceAPI(
+        "response-creation",
+        () => {
+          return createErrorResponse(error, request, requestId);
+        },
+        {
+          "response.success": false,
+          "response.error_code": error.code,
+        },
+      );
 
-        logger.security(
-          SecurityEvent.CRYPTO_FAILURE,
-          `Crypto operation failed: ${operation}`,
-          {
-            operation,
-            clientIP,
-            error: errorMessage,
-            payloadLength: payload.length,
-            keyLength: key.length,
-            requestId,
-          },
-        );
+      return errorResponse;
+    }
 
-        throw new ApiError(
-          `${operation} operation failed: ${errorMessage}`,
-          400,
-          `${operation.toUpperCase()}_FAILED`,
-        );
+    // Unexpected error
+    logger.error(
+      `Unexpected error in API ${operation}`,
+      error as Error,
+      {
+        operation,
+        clientIP,
+        requestId,
+      },
+      LogCategory.API,
+    );
+
+    logger.apiRequest(
+      "POST",
+      `/api/${operation}`,
+      500,
+      responseTime,
+      clientIP,
+      requestId,
+      {
+        error: "Internal server error",
+        operation,
+      },
+    );
+
+    // Record unexpected error metrics
+    tracer.recordMetric("api.request.unexpected_error", 1, {
+      "operation": operation,
+      "error_type": error instanceof Error ? error.constructor.name : "Unknown",
+    });
+
+    return createErrorResponse(
+      new ApiError("Internal server error"),
+      request,
+      requestId,
+    );
+  }
+}
+
+/**
+ * Handles batch encrypt and decrypt requests, for jobs such as database
+ * exports that would otherwise make one request per record. Each operation
+ * is validated and run like a single /api/encrypt or /api/decrypt request
+ * and gets its own result, so one bad operation does not fail the batch.
+ * The batch counts as one request for rate limiting, plus one per full 64KB
+ * of body. Every decryption is held to the
+ * server's KDF cost cap, and operations with the same key share one key
+ * derivation.
+ * @param request - The incoming HTTP request
+ * @param context - Request context with the client IP and request ID
+ * @param operation - Whether to 'encrypt' or 'decrypt' the payloads
+ * @returns HTTP Response with a result per operation
+ */
+async function handleBatchRequest(
+  request: Request,
+  context: RequestContext,
+  operation: "encrypt" | "decrypt",
+): Promise<Response> {
+  const endpoint = `/api/batch/${operation}`;
+  const startTime = performance.now();
+  const { clientIP, requestId } = context;
+
+  // Track function coverage
+  coverageTracker.trackFunction(
+    operation === "encrypt" ? "handleBatchEncrypt" : "handleBatchDecrypt",
+  );
+
+  // Repeated keys in a batch derive once, even with the server cache off
+  const batchCache = keyCache ?? new DerivedKeyCache();
+
+  try {
+    const text = await request.text();
+    const bodySize = new TextEncoder().encode(text).length;
+    if (bodySize > MAX_PAYLOAD_SIZE) {
+      throw new ApiError("Request too large", 413, "REQUEST_TOO_LARGE");
+    }
+
+    let body;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ApiError("Invalid JSON in request body", 400, "INVALID_JSON");
+    }
+
+    // The rate-limit middleware counted one request; the rest of the
+    // weight, one per full unit of body, is counted before anything is
+    // decrypted or derived
+    const weight = 1 + Math.floor(bodySize / BATCH_RATE_LIMIT_UNIT);
+    if (weight > 1 && !RateLimiter.checkRateLimit(clientIP, weight - 1)) {
+      throw new ApiError("Rate limit exceeded", 429, "RATE_LIMIT_EXCEEDED");
+    }
+
+    // An error inside one operation fails only that operation; any other
+    // error, including a bad id, rejects the batch
+    const itemErrors = new Map<number, SchemaError>();
+    for (const error of validateSchema(body, findRoute(endpoint)!.body!)) {
+      const [field, index, name] = error.path;
+      if (
+        field !== "operations" || typeof index !== "number" ||
+        name === undefined || name === "id"
+      ) {
+        throw schemaError(error, endpoint, request);
       }
+      if (!itemErrors.has(index)) {
+        itemErrors.set(index, error);
+      }
+    }
+    const { operations } = body as { operations: EncryptRequest[] };
 
-      // Create response with tracing
-      const response = await TracingHelpers.traceAPI(
-        "response-creation",
-        () => {
-          return createApiResponse(true, result, undefined, request);
-        },
+    const results = [];
+    let failed = 0;
+    for (const [index, item] of operations.entries()) {
+      const { id } = item as EncryptRequest & { id: string };
+      try {
+        const itemError = itemErrors.get(index);
+        if (itemError) {
+          throw new ApiError(itemError.message, 400, itemError.code);
+        }
+        // Each recipient costs a key derivation, which a batch would
+        // multiply
+        if (item.recipients !== undefined) {
+          throw new ApiError(
+            "Recipients are not supported in batches",
+            400,
+            "INVALID_RECIPIENTS",
+          );
+        }
+        const fields = await sanitizeRequestFields(item);
+        results.push({
+          id,
+          success: true,
+          data: await performCryptoOperation(
+            operation,
+            fields,
+            { clientIP, requestId },
+            batchCache,
+          ),
+        });
+      } catch (error) {
+        if (!(error instanceof ApiError)) {
+          throw error;
+        }
+        failed++;
+        results.push({
+          id,
+          success: false,
+          error: error.message,
+          code: error.code,
+          details: error.details,
+        });
+      }
+    }
+
+    logger.apiRequest(
+      "POST",
+      endpoint,
+      200,
+      performance.now() - startTime,
+      clientIP,
+      requestId,
+      { itemCount: operations.length, failed, weight },
+    );
+    tracer.recordMetric(
+      `crypto.batch.${operation}.items`,
+      operations.length,
+      {
+        "failed": failed,
+      },
+    );
+
+    return createApiResponse({ results }, request);
+  } catch (error) {
+    const responseTime = performance.now() - startTime;
+
+    if (error instanceof ApiError) {
+      logger.apiRequest(
+        "POST",
+        endpoint,
+        error.statusCode,
+        responseTime,
+        clientIP,
+        requestId,
         {
-          "response.success": true,
-          "response.result_length": result.length,
+          error: error.message,
+          code: error.code,
         },
       );
+      return createErrorResponse(error, request, requestId);
+    }
 
-      // Log successful operation
-      const responseTime = performance.now() - startTime;
+    logger.error(
+      `Unexpected error in API batch ${operation}`,
+      error as Error,
+      { clientIP, requestId },
+      LogCategory.API,
+    );
+    return createErrorResponse(
+      new ApiError("Internal server error"),
+      request,
+      requestId,
+    );
+  } finally {
+    if (batchCache !== keyCache) {
+      batchCache.clear();
+    }
+  }
+}
+
+/**
+ * Creates a pass-through stream that errors once more than maxBytes have
+ * passed, for bodies without a trustworthy Content-Length
+ * @param maxBytes - Maximum number of bytes allowed through
+ * @returns TransformStream enforcing the limit
+ */
+function createSizeLimitStream(
+  maxBytes: number,
+): TransformStream<Uint8Array, Uint8Array> {
+  let total = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        controller.error(
+          new ApiError("Request too large", 413, "REQUEST_TOO_LARGE"),
+        );
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Handles streaming encrypt and decrypt requests. The raw request body is
+ * piped through the chunked stream format, so large payloads are processed
+ * in constant memory. The body carries the data, so the passphrase is sent
+ * in the X-Salty-Key header.
+ * @param request - The incoming HTTP request
+ * @param context - Request context with the client IP and request ID
+ * @param operation - Whether to 'encrypt' or 'decrypt' the body
+ * @returns HTTP Response streaming the result, or a JSON error
+ */
+function handleStreamRequest(
+  request: Request,
+  context: RequestContext,
+  operation: "encrypt" | "decrypt",
+): Response {
+  const startTime = performance.now();
+  const { clientIP, requestId } = context;
+  const route = `/api/${operation}-stream`;
+
+  // Track function coverage
+  coverageTracker.trackFunction(
+    operation === "encrypt" ? "handleEncryptStream" : "handleDecryptStream",
+  );
+
+  try {
+    const keyHeader = request.headers.get("X-Salty-Key");
+    if (!keyHeader) {
+      throw new ApiError("Missing X-Salty-Key header", 400, "MISSING_KEY");
+    }
+    if (keyHeader.length > MAX_KEY_SIZE) {
+      throw new ApiError("Key too long", 400, "INVALID_KEY");
+    }
+    const key = SecurityUtils.sanitizeInput(keyHeader, MAX_KEY_SIZE);
+
+    if (!request.body) {
+      throw new ApiError("Request body required", 400, "MISSING_BODY");
+    }
+
+    // Encrypting derives a fresh key per stream; decrypting derives it
+    // from the stream header
+    const cryptoStream = operation === "encrypt"
+      ? salty_encrypt_stream(key, { kdf: KDF_OPTIONS })
+      : salty_decrypt_stream(key, { maxKdfCost: MAX_KDF_COST });
+    const body = request.body
+      .pipeThrough(createSizeLimitStream(MAX_STREAM_SIZE))
+      .pipeThrough(cryptoStream);
+
+    const headers = SecurityUtils.createSecurityHeaders();
+    headers.set("Content-Type", "application/octet-stream");
+
+    // Failures after this point abort the response body
+    logger.apiRequest(
+      "POST",
+      route,
+      200,
+      performance.now() - startTime,
+      clientIP,
+      requestId,
+      { operation, streaming: true },
+    );
+
+    return new Response(body, { headers });
+  } catch (error) {
+    const responseTime = performance.now() - startTime;
+
+    if (error instanceof ApiError) {
       logger.apiRequest(
         "POST",
-        `/api/${operation}`,
-        200,
+        route,
+        error.statusCode,
         responseTime,
         clientIP,
         requestId,
         {
-          payloadLength: payload.length,
-          resultLength: result.length,
+          error: error.message,
+          code: error.code,
           operation,
         },
       );
+      return createErrorResponse(error, request, requestId);
+    }
 
-      // Record performance metrics
-      tracer.recordMetric("api.request.duration", responseTime, {
-        "operation": operation,
-        "status": "success",
-      });
+    logger.error(
+      `Unexpected error in API ${operation} stream`,
+      error as Error,
+      { operation, clientIP, requestId },
+      LogCategory.API,
+    );
+    return createErrorResponse(
+      new ApiError("Internal server error"),
+      request,
+      requestId,
+    );
+  }
+}
 
-      return response;
-    } catch (error) {
-      const responseTime = performance.now() - startTime;
+/**
+ * Handles signature verification requests. Verification needs no secrets:
+ * the response reports who signed the ciphertext, which stays encrypted.
+ * @param request - The incoming HTTP request
+ * @param context - Request context with the client IP and request ID
+ * @returns HTTP Response with the signer's fingerprint and the ciphertext
+ */
+async function handleVerifyRequest(
+  request: Request,
+  context: RequestContext,
+): Promise<Response> {
+  const startTime = performance.now();
+  const { clientIP, requestId } = context;
 
-      if (error instanceof ApiError) {
-        // Log API-specific errors
-        logger.apiRequest(
-          "POST",
-          `/api/${operation}`,
-          error.statusCode,
-          responseTime,
-          clientIP,
-          requestId,
-          {
-            error: error.message,
-            code: error.code,
-            operation,
-          },
-        );
+  // Track function coverage
+  coverageTracker.trackFunction("handleVerify");
 
-        // Record error metrics
-        tracer.recordMetric("api.request.error", 1, {
-          "operation": operation,
-          "error_code": error.code,
-          "status_code": error.statusCode.toString(),
-        });
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError("Invalid JSON in request body", 400, "INVALID_JSON");
+    }
 
-        const errorResponse = TracingHelpers.traceAPI(
-          "response-creation",
-          () => {
-            return createApiResponse(false, undefined, error.message, request);
-          },
-          {
-            "response.success": false,
-            "response.error_code": error.code,
-          },
-        );
+    validateRouteBody("/api/verify", body, request);
+    const { payload, publicKey } = body;
 
-        return errorResponse;
+    let expectedKey: CryptoKey | undefined;
+    if (publicKey) {
+      try {
+        expectedKey = await salty_import_public_key(publicKey);
+      } catch {
+        throw new ApiError("Invalid public key", 400, "INVALID_PUBLIC_KEY");
       }
+    }
 
-      // Unexpected error
-      logger.error(
-        `Unexpected error in API ${operation}`,
-        error as Error,
+    const verified = await TracingHelpers.traceCrypto(
+      "verify",
+      () => salty_verify(payload, expectedKey),
+      {
+        "crypto.payload_length": payload.length,
+        "crypto.expected_signer": !!expectedKey,
+      },
+    );
+
+    if (!verified) {
+      logger.security(
+        SecurityEvent.CRYPTO_FAILURE,
+        "Signature verification failed",
         {
-          operation,
           clientIP,
+          payloadLength: payload.length,
+          expectedSigner: !!expectedKey,
           requestId,
         },
-        LogCategory.API,
       );
+      throw new ApiError(
+        "Signature verification failed",
+        400,
+        "INVALID_SIGNATURE",
+      );
+    }
+
+    logger.apiRequest(
+      "POST",
+      "/api/verify",
+      200,
+      performance.now() - startTime,
+      clientIP,
+      requestId,
+      { payloadLength: payload.length, fingerprint: verified.fingerprint },
+    );
 
+    return createApiResponse(
+      {
+        fingerprint: verified.fingerprint,
+        algorithm: SaltyKeyAlgorithm[verified.algorithm],
+        payload: verified.encrypted,
+      },
+      request,
+    );
+  } catch (error) {
+    const responseTime = performance.now() - startTime;
+
+    if (error instanceof ApiError) {
       logger.apiRequest(
         "POST",
-        `/api/${operation}`,
-        500,
+        "/api/verify",
+        error.statusCode,
         responseTime,
         clientIP,
         requestId,
         {
-          error: "Internal server error",
-          operation,
+          error: error.message,
+          code: error.code,
         },
       );
-
-      // Record unexpected error metrics
-      tracer.recordMetric("api.request.unexpected_error", 1, {
-        "operation": operation,
-        "error_type": error instanceof Error
-          ? error.constructor.name
-          : "Unknown",
-      });
-
-      return createApiResponse(
-        false,
-        undefined,
-        "Internal server error",
-        request,
-      );
+      return createErrorResponse(error, request, requestId);
     }
-  }, {
-    "api.operation": operation,
-    "client.ip": SecurityUtils.getClientIP(request),
-  });
+
+    logger.error(
+      "Unexpected error in API verify",
+      error as Error,
+      { clientIP, requestId },
+      LogCategory.API,
+    );
+    return createErrorResponse(
+      new ApiError("Internal server error"),
+      request,
+      requestId,
+    );
+  }
 }
 
 /**
- * Handles the track access API endpoint for dbFLEX integration
+ * Handles rekey requests, which move ciphertexts from a leaked or retired
+ * key to a new one. A single payload returns the re-encrypted payload; an
+ * items array returns a result per item, so one bad item does not fail the
+ * batch, and each item counts as one request for rate limiting. The
+ * plaintext stays inside salty_rekey and is never logged.
  * @param request - The incoming HTTP request
- * @returns HTTP Response with tracking result
+ * @param context - Request context with the client IP and request ID
+ * @returns HTTP Response with the re-encrypted payload(s)
  */
-async function handleTrackAccess(req: Request): Promise<Response> {
-  return await TracingHelpers.traceAPI("request-handler", async () => {
-    const dbflexConfig = getDbflexConfig();
+async function handleRekeyRequest(
+  request: Request,
+  context: RequestContext,
+): Promise<Response> {
+  const startTime = performance.now();
+  const { clientIP, requestId } = context;
 
-    if (!dbflexConfig.enabled) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Tracking not enabled",
-        }),
+  // Track function coverage
+  coverageTracker.trackFunction("handleRekey");
+
+  try {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError("Invalid JSON in request body", 400, "INVALID_JSON");
+    }
+
+    validateRouteBody("/api/rekey", body, request);
+    const { payload, items, key, newKey, context, upgrade } = body;
+    const batch = items !== undefined;
+    if (batch === (payload !== undefined)) {
+      throw new ApiError(
+        "Provide either payload or items",
+        400,
+        "INVALID_PAYLOAD",
+      );
+    }
+
+    // The rate-limit middleware counted one request; each further item
+    // costs two key derivations, so it counts as a request of its own
+    // before anything is derived, as in batches
+    const weight = batch ? items.length : 1;
+    if (weight > 1 && !RateLimiter.checkRateLimit(clientIP, weight - 1)) {
+      throw new ApiError("Rate limit exceeded", 429, "RATE_LIMIT_EXCEEDED");
+    }
+
+    // Keys are sanitized as on /api/encrypt and /api/decrypt, so they
+    // match the passphrases those endpoints used
+    const oldKey = SecurityUtils.sanitizeInput(key, MAX_KEY_SIZE);
+    const sanitizedNewKey = SecurityUtils.sanitizeInput(
+      newKey,
+      MAX_KEY_SIZE,
+    );
+    // An upgrade derives the new key once with the current settings;
+    // otherwise each message keeps its own KDF and costs
+    const targetKey = upgrade
+      ? await salty_derive_key(sanitizedNewKey, KDF_OPTIONS)
+      : sanitizedNewKey;
+    const legacySaltHex = Deno.env.get("SALT_HEX");
+
+    const rekey = (encrypted: string) =>
+      TracingHelpers.traceCrypto("rekey", async () => {
+        let failure = SaltyDecryptFailure.UNKNOWN;
+        let invalidSymbol: SaltyInvalidSymbol | undefined;
+        const rekeyed = await salty_rekey(
+          SecurityUtils.sanitizeInput(encrypted, MAX_PAYLOAD_SIZE),
+          oldKey,
+          targetKey,
+          {
+            legacySaltHex,
+            context,
+            maxDecompressedSize: MAX_DECOMPRESSED_SIZE,
+            maxKdfCost: MAX_KDF_COST,
+            maxRecipients: MAX_API_RECIPIENTS + 1,
+            keyCache: keyCache ?? undefined,
+            onFailure: (reason) => failure = reason,
+            onInvalidSymbol: (symbol) => invalidSymbol = symbol,
+          },
+        );
+        if (rekeyed === null) {
+          throw decryptFailureError(failure, !!context, invalidSymbol);
+        }
+        return rekeyed;
+      }, {
+        "crypto.payload_length": encrypted.length,
+        "crypto.upgrade": !!upgrade,
+      });
+
+    let data: string | Record<string, unknown>;
+    let failed = 0;
+    if (batch) {
+      const results = [];
+      for (const item of items as { id: string; payload: string }[]) {
+        try {
+          results.push({
+            id: item.id,
+            success: true,
+            payload: await rekey(item.payload),
+          });
+        } catch (error) {
+          if (!(error instanceof ApiError)) {
+            throw error;
+          }
+          failed++;
+          results.push({
+            id: item.id,
+            success: false,
+            error: error.message,
+            code: error.code,
+            details: error.details,
+          });
+        }
+      }
+      data = { results };
+    } else {
+      data = await rekey(payload);
+    }
+
+    if (failed > 0) {
+      logger.security(
+        SecurityEvent.CRYPTO_FAILURE,
+        "Rekey failed for some items",
+        { clientIP, failed, total: items.length, requestId },
+      );
+    }
+    logger.apiRequest(
+      "POST",
+      "/api/rekey",
+      200,
+      performance.now() - startTime,
+      clientIP,
+      requestId,
+      {
+        itemCount: batch ? items.length : 1,
+        failed,
+        upgrade: !!upgrade,
+        weight,
+      },
+    );
+    tracer.recordMetric("crypto.rekey.items", batch ? items.length : 1, {
+      "failed": failed,
+      "upgrade": !!upgrade,
+    });
+
+    return createApiResponse(data, request);
+  } catch (error) {
+    const responseTime = performance.now() - startTime;
+
+    if (error instanceof ApiError) {
+      logger.apiRequest(
+        "POST",
+        "/api/rekey",
+        error.statusCode,
+        responseTime,
+        clientIP,
+        requestId,
         {
-          status: 404,
-          headers: { "Content-Type": "application/json" },
+          error: error.message,
+          code: error.code,
         },
       );
+      return createErrorResponse(error, request, requestId);
     }
 
+    logger.error(
+      "Unexpected error in API rekey",
+      error as Error,
+      { clientIP, requestId },
+      LogCategory.API,
+    );
+    return createErrorResponse(
+      new ApiError("Internal server error"),
+      request,
+      requestId,
+    );
+  }
+}
+
+/**
+ * Handles Shamir secret sharing requests. Split turns a payload into
+ * armored shares, any threshold of which recover it; combine recovers the
+ * payload from shares. Neither the payload nor the shares are logged.
+ * @param request - The incoming HTTP request
+ * @param context - Request context with the client IP and request ID
+ * @param operation - Whether to split or combine
+ * @returns HTTP Response with the shares or the recovered payload
+ */
+async function handleSharesRequest(
+  request: Request,
+  context: RequestContext,
+  operation: "split" | "combine",
+): Promise<Response> {
+  const endpoint = `/api/shares/${operation}`;
+  const startTime = performance.now();
+  const { clientIP, requestId } = context;
+
+  // Track function coverage
+  coverageTracker.trackFunction("handleShares");
+
+  try {
+    let body;
     try {
-      const data = await req.json();
-      const { id, timestamp, userAgent, referrer } = data;
+      body = await request.json();
+    } catch {
+      throw new ApiError("Invalid JSON in request body", 400, "INVALID_JSON");
+    }
 
-      // Validate ID format
-      if (!id || !isValidDbflexId(id)) {
-        throw new ApiError("Invalid ID format", 400, "INVALID_ID");
-      }
+    validateRouteBody(endpoint, body, request);
 
-      // Forward to dbFLEX with telemetry
-      const result = await forwardToDbflex(id, timestamp, userAgent, referrer);
+    let data: string | Record<string, unknown>;
+    let shareCount: number;
+    if (operation === "split") {
+      const { payload, shares, threshold, comment } = body;
+      // The schema counts characters; the limit is on UTF-8 bytes
+      if (
+        new TextEncoder().encode(payload).length > MAX_SHARED_PAYLOAD_SIZE
+      ) {
+        throw new ApiError(
+          `Payload must be a string of at most ${
+            MAX_SHARED_PAYLOAD_SIZE / 1024
+          }KB`,
+          400,
+          "INVALID_PAYLOAD",
+        );
+      }
+      if (threshold > shares) {
+        throw new ApiError(
+          "Threshold must be an integer from 2 to the number of shares",
+          400,
+          "INVALID_THRESHOLD",
+        );
+      }
 
-      return new Response(
-        JSON.stringify({
-          success: result.success,
-          timestamp: new Date().toISOString(),
-        }),
+      const armored = await TracingHelpers.traceCrypto(
+        "split",
+        () =>
+          salty_split(
+            SecurityUtils.sanitizeInput(payload, MAX_PAYLOAD_SIZE),
+            shares,
+            threshold,
+            { comment },
+          ),
         {
-          status: 200,
-          headers: { "Content-Type": "application/json" },
+          "crypto.payload_length": payload.length,
+          "crypto.shares": shares,
+          "crypto.threshold": threshold,
         },
       );
-    } catch (error) {
-      const statusCode = error instanceof ApiError ? error.statusCode : 500;
-      logger.error(
-        "Track access error:",
-        error instanceof Error ? error : new Error(String(error)),
-      );
-      // Don't expose internal error details to users
-      const safeErrorMessage = statusCode === 400
-        ? "Invalid request parameters"
-        : "An error occurred while processing your request";
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: safeErrorMessage,
-        }),
+      data = { threshold, shares: armored };
+      shareCount = shares;
+    } else {
+      const { shares } = body;
+
+      data = await TracingHelpers.traceCrypto("combine", () => {
+        try {
+          return salty_combine(shares);
+        } catch (error) {
+          // Which share is invalid, or why they do not combine
+          throw new ApiError(
+            (error as Error).message,
+            400,
+            "INVALID_SHARES",
+          );
+        }
+      }, { "crypto.shares": shares.length });
+      shareCount = shares.length;
+    }
+
+    logger.apiRequest(
+      "POST",
+      endpoint,
+      200,
+      performance.now() - startTime,
+      clientIP,
+      requestId,
+      { shareCount },
+    );
+
+    return createApiResponse(data, request);
+  } catch (error) {
+    const responseTime = performance.now() - startTime;
+
+    if (error instanceof ApiError) {
+      logger.apiRequest(
+        "POST",
+        endpoint,
+        error.statusCode,
+        responseTime,
+        clientIP,
+        requestId,
         {
-          status: statusCode,
-          headers: { "Content-Type": "application/json" },
+          error: error.message,
+          code: error.code,
         },
       );
+      return createErrorResponse(error, request, requestId);
     }
-  }, {
-    "client.ip": SecurityUtils.getClientIP(req),
-    "http.route": "/api/track-access",
-  });
+
+    logger.error(
+      `Unexpected error in API ${operation}`,
+      error as Error,
+      { clientIP, requestId },
+      LogCategory.API,
+    );
+    return createErrorResponse(
+      new ApiError("Internal server error"),
+      request,
+      requestId,
+    );
+  }
+}
+
+/**
+ * Handles the track access API endpoint for dbFLEX integration
+ * @param request - The incoming HTTP request
+ * @param context - Request context with the client IP and request ID
+ * @returns HTTP Response with tracking result
+ */
+async function handleTrackAccess(
+  req: Request,
+  context: RequestContext,
+): Promise<Response> {
+  const dbflexConfig = getDbflexConfig();
+
+  if (!dbflexConfig.enabled) {
+    return createErrorResponse(
+      new ApiError("Tracking not enabled", 404, "TRACKING_DISABLED"),
+      req,
+      context.requestId,
+    );
+  }
+
+  try {
+    let data;
+    try {
+      data = await req.json();
+    } catch {
+      throw new ApiError("Invalid JSON in request body", 400, "INVALID_JSON");
+    }
+    validateRouteBody("/api/track-access", data, req);
+    const { id, timestamp, userAgent, referrer } = data;
+
+    // Validate ID format
+    if (!isValidDbflexId(id)) {
+      throw new ApiError("Invalid ID format", 400, "INVALID_ID");
+    }
+
+    // Forward to dbFLEX with telemetry
+    const result = await forwardToDbflex(id, timestamp, userAgent, referrer);
+
+    return new Response(
+      JSON.stringify({
+        success: result.success,
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  } catch (error) {
+    logger.error(
+      "Track access error:",
+      error instanceof Error ? error : new Error(String(error)),
+    );
+    // Don't expose internal error details to users
+    return createErrorResponse(
+      error instanceof ApiError ? error : new ApiError("Internal server error"),
+      req,
+      context.requestId,
+    );
+  }
 }
 
 /**
@@ -1104,103 +2133,55 @@ async function forwardToDbflex(
   }
 }
 
+/** Static files by request path */
+const STATIC_FILES: Record<string, string> = {
+  "/": "./index.html",
+  "/en": "./en/index.html",
+  "/en/": "./en/index.html",
+  "/favicon.ico": "./favicon.ico",
+  "/LICENSE": "./LICENSE",
+  "/README.md": "./README.md",
+  "/japanese-diceware-wordlist.txt": "./japanese-diceware-wordlist.txt",
+  "/test-password-generator.html": "./test-password-generator.html",
+  "/test-diceware-entropy.html": "./test-diceware-entropy.html",
+  "/dashboard.html": "./dashboard.html",
+};
+
+/** TypeScript modules the browser loads, transpiled on request */
+const BROWSER_MODULES = [
+  "/salty.ts",
+  "/armor.ts",
+  "/shamir.ts",
+  "/kdf-worker.ts",
+  "/password-strength.ts",
+  "/hibp-checker.ts",
+  "/password-generator.ts",
+];
+
+/** Files served from /.well-known/ */
+const WELL_KNOWN_FILES = ["security.txt", "security-policy"];
+
 /**
- * Serves static files with appropriate security headers
- * @param pathname - The requested file path
- * @returns HTTP Response with the file contents or 404 error
+ * Creates the 404 page for paths without a route or file
+ * @returns HTTP Response with status 404
  */
-async function serveFile(pathname: string): Promise<Response> {
-  try {
-    let filePath: string;
-
-    // Main routes
-    if (pathname === "/" || pathname === "") {
-      filePath = "./index.html";
-    } else if (pathname === "/en" || pathname === "/en/") {
-      filePath = "./en/index.html";
-    } else if (pathname === "/favicon.ico") {
-      filePath = "./favicon.ico";
-    } // Handle TypeScript module transpilation
-    else if (
-      pathname.endsWith(".ts") && [
-        "/salty.ts",
-        "/password-strength.ts",
-        "/hibp-checker.ts",
-        "/password-generator.ts",
-      ].includes(pathname)
-    ) {
-      logger.debug(`Handling ${pathname} transpilation with Deno emit`, {
-        category: LogCategory.HEALTH,
-      });
-      try {
-        const moduleName = pathname.slice(1); // Remove leading slash
-        const result = await bundle(
-          new URL(`./${moduleName}`, import.meta.url),
-        );
-        const jsContent = result.code;
-
-        logger.debug("Deno transpilation successful", {
-          category: LogCategory.HEALTH,
-          module: moduleName,
-          contentLength: jsContent.length,
-        });
+function notFoundResponse(): Response {
+  const headers = SecurityUtils.createSecurityHeaders();
+  headers.set("Content-Type", "text/html; charset=utf-8");
 
-        const headers = SecurityUtils.createSecurityHeaders();
-        headers.set("Content-Type", "text/javascript; charset=utf-8");
-        return new Response(jsContent, { headers });
-      } catch (error) {
-        logger.error(
-          `Transpilation failed for ${pathname}`,
-          error instanceof Error ? error : new Error(String(error)),
-          { pathname },
-          LogCategory.SECURITY,
-        );
-        throw new Error("Transpilation failed");
-      }
-    } // Handle image files
-    else if (pathname.startsWith("/img/") && pathname.endsWith(".svg")) {
-      // Security check: prevent directory traversal
-      const fileName = pathname.replace("/img/", "");
-      if (
-        fileName.includes("..") || fileName.includes("/") ||
-        fileName.includes("\\")
-      ) {
-        throw new Error("Invalid file path");
-      }
-      filePath = `./img/${fileName}`;
-    } // Handle .well-known files (security.txt, etc.)
-    else if (pathname.startsWith("/.well-known/")) {
-      const fileName = pathname.replace("/.well-known/", "");
-      // Security check: prevent directory traversal
-      if (
-        fileName.includes("..") || fileName.includes("/") ||
-        fileName.includes("\\")
-      ) {
-        throw new Error("Invalid file path");
-      }
-      // Only allow specific files
-      const allowedWellKnownFiles = ["security.txt", "security-policy"];
-      if (!allowedWellKnownFiles.includes(fileName)) {
-        throw new Error("File not found");
-      }
-      filePath = `./.well-known/${fileName}`;
-    } // Handle other potential static files (LICENSE, README.md for reference)
-    else if (pathname === "/LICENSE") {
-      filePath = "./LICENSE";
-    } else if (pathname === "/README.md") {
-      filePath = "./README.md";
-    } else if (pathname === "/japanese-diceware-wordlist.txt") {
-      filePath = "./japanese-diceware-wordlist.txt";
-    } else if (pathname === "/test-password-generator.html") {
-      filePath = "./test-password-generator.html";
-    } else if (pathname === "/test-diceware-entropy.html") {
-      filePath = "./test-diceware-entropy.html";
-    } else if (pathname === "/dashboard.html") {
-      filePath = "./dashboard.html";
-    } else {
-      throw new Error("File not found");
-    }
+  return new Response(
+    "<!DOCTYPE html><html><head><title>404 Not Found</title></head><body><h1>404 - Page Not Found</h1></body></html>",
+    { status: 404, headers },
+  );
+}
 
+/**
+ * Serves a static file with appropriate security headers
+ * @param filePath - The file to serve, such as './index.html'
+ * @returns HTTP Response with the file contents or 404 error
+ */
+async function serveFile(filePath: string): Promise<Response> {
+  try {
     let fileContent = await Deno.readFile(filePath);
     const headers = SecurityUtils.createSecurityHeaders();
 
@@ -1208,7 +2189,7 @@ async function serveFile(pathname: string): Promise<Response> {
     if (filePath.endsWith(".html")) {
       headers.set("Content-Type", "text/html; charset=utf-8");
 
-      // Inject SALT_HEX into HTML files
+      // Inject SALT_HEX into HTML files (legacy fallback for old messages)
       const saltHex = Deno.env.get("SALT_HEX");
       if (saltHex) {
         let htmlContent = new TextDecoder().decode(fileContent);
@@ -1258,45 +2239,259 @@ async function serveFile(pathname: string): Promise<Response> {
       headers.set("Content-Type", "text/plain; charset=utf-8");
     }
 
-    return new Response(fileContent, { headers });
-  } catch {
-    const headers = SecurityUtils.createSecurityHeaders();
-    headers.set("Content-Type", "text/html; charset=utf-8");
+    return new Response(fileContent, { headers });
+  } catch {
+    return notFoundResponse();
+  }
+}
+
+/**
+ * Serves a file from a directory, by a name taken from the request path
+ * @param directory - The directory, such as './img'
+ * @param fileName - The requested file name
+ * @param allowed - Whether a file name may be served
+ * @returns HTTP Response with the file contents or 404 error
+ */
+function serveDirectoryFile(
+  directory: string,
+  fileName: string,
+  allowed: (fileName: string) => boolean,
+): Promise<Response> {
+  // Security check: prevent directory traversal
+  if (
+    fileName.includes("..") || fileName.includes("/") ||
+    fileName.includes("\\") || !allowed(fileName)
+  ) {
+    return Promise.resolve(notFoundResponse());
+  }
+  return serveFile(`${directory}/${fileName}`);
+}
+
+/**
+ * Serves a TypeScript module to the browser, bundled to JavaScript
+ * @param pathname - The module path, such as '/salty.ts'
+ * @returns HTTP Response with the JavaScript, or 404 error if it fails
+ */
+async function serveBrowserModule(pathname: string): Promise<Response> {
+  logger.debug(`Handling ${pathname} transpilation with Deno emit`, {
+    category: LogCategory.HEALTH,
+  });
+  try {
+    const moduleName = pathname.slice(1); // Remove leading slash
+    const result = await bundle(
+      new URL(`./${moduleName}`, import.meta.url),
+    );
+    const jsContent = result.code;
 
-    return new Response(
-      "<!DOCTYPE html><html><head><title>404 Not Found</title></head><body><h1>404 - Page Not Found</h1></body></html>",
-      { status: 404, headers },
+    logger.debug("Deno transpilation successful", {
+      category: LogCategory.HEALTH,
+      module: moduleName,
+      contentLength: jsContent.length,
+    });
+
+    const headers = SecurityUtils.createSecurityHeaders();
+    headers.set("Content-Type", "text/javascript; charset=utf-8");
+    return new Response(jsContent, { headers });
+  } catch (error) {
+    logger.error(
+      `Transpilation failed for ${pathname}`,
+      error instanceof Error ? error : new Error(String(error)),
+      { pathname },
+      LogCategory.SECURITY,
     );
+    return notFoundResponse();
   }
 }
 
 /**
- * Main request handler that routes requests to appropriate handlers
+ * Handles CSP violation reports
  * @param request - The incoming HTTP request
- * @returns HTTP Response for the request
+ * @returns HTTP Response with status 204, even for unreadable reports
  */
-async function handleRequest(request: Request): Promise<Response> {
-  const url = new URL(request.url);
-  const pathname = url.pathname;
+async function handleCspReport(request: Request): Promise<Response> {
+  try {
+    const report = await request.json();
+
+    logger.security(
+      SecurityEvent.CSP_VIOLATION,
+      "CSP violation reported",
+      {
+        documentUri: report["csp-report"]?.["document-uri"],
+        violatedDirective: report["csp-report"]?.["violated-directive"],
+        blockedUri: report["csp-report"]?.["blocked-uri"],
+        lineNumber: report["csp-report"]?.["line-number"],
+        columnNumber: report["csp-report"]?.["column-number"],
+        sourceFile: report["csp-report"]?.["source-file"],
+        referrer: report["csp-report"]?.["referrer"],
+        clientIP: SecurityUtils.getClientIP(request),
+      },
+    );
+
+    // Return 204 No Content for successful report
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    logger.error("Failed to process CSP report", error as Error, {
+      clientIP: SecurityUtils.getClientIP(request),
+    }, LogCategory.SECURITY);
+
+    // Still return success to avoid retries
+    return new Response(null, { status: 204 });
+  }
+}
+
+/**
+ * Handles the health check endpoint with enhanced metrics
+ * @returns HTTP Response with health, configuration and metrics
+ */
+function handleHealthRequest(): Response {
+  const headers = SecurityUtils.createSecurityHeaders();
+  headers.set("Content-Type", "application/json");
+
+  const metrics = logger.getMetrics();
+  const securitySummary = logger.getSecuritySummary();
+
+  // Defensive checks for metrics
+  const uptime = metrics?.uptime || 0;
+  const startTime = uptime > 0
+    ? new Date(Date.now() - uptime * 1000).toISOString()
+    : new Date().toISOString();
+
+  const healthData = {
+    status: "healthy",
+    timestamp: new Date().toISOString(),
+    version: VERSION,
+    buildInfo: VersionUtils?.getDetailedInfo
+      ? VersionUtils.getDetailedInfo()
+      : null,
+    server: {
+      runtime: `Deno ${Deno.version?.deno || "unknown"}`,
+      platform: TECH_SPECS?.platform || "unknown",
+      uptime: uptime,
+      startTime: startTime,
+    },
+    security: {
+      rateLimiting: SECURITY_INFO?.rateLimiting || {},
+      headersApplied: SECURITY_INFO?.securityHeaders?.length || 0,
+      headers: SECURITY_INFO?.securityHeaders || [],
+      apiKeyRequired: !!Deno.env.get("API_KEY"),
+      securityEvents: securitySummary || {},
+      compliance: SECURITY_COMPLIANCE || {},
+    },
+    environment: {
+      saltConfigured: !!Deno.env.get("SALT_HEX"),
+      apiKeyConfigured: !!Deno.env.get("API_KEY"),
+      nodeEnv: Deno.env.get("NODE_ENV") || "production",
+      logLevel: Deno.env.get("LOG_LEVEL") || "INFO",
+    },
+    endpoints: TECH_SPECS?.endpoints || [],
+    crypto: {
+      features: TECH_SPECS?.cryptoFeatures || [],
+      webCryptoAvailable: !!globalThis.crypto?.subtle,
+      keyCache: keyCache
+        ? { enabled: true, ...keyCache.getStats() }
+        : { enabled: false },
+    },
+    metrics: {
+      requests: {
+        total: metrics?.totalRequests || 0,
+        successful: metrics?.successfulRequests || 0,
+        failed: metrics?.failedRequests || 0,
+        successRate: (metrics?.totalRequests || 0) > 0
+          ? Math.round(
+            ((metrics?.successfulRequests || 0) /
+              (metrics?.totalRequests || 1)) * 100,
+          )
+          : 0,
+      },
+      performance: {
+        averageResponseTime: Math.round(metrics?.averageResponseTime || 0),
+        metricsResetTime: metrics?.resetTime || new Date().toISOString(),
+      },
+      endpoints: metrics?.endpointStats
+        ? Object.fromEntries(metrics.endpointStats)
+        : {},
+      security: securitySummary || {},
+    },
+    coverage: coverageTracker.getRuntimeCoverage(),
+  };
+
+  // Health endpoint logging is now handled by handleRequestWithTiming
+  // to ensure accurate response time measurement
 
-  // Track endpoint coverage
-  coverageTracker.trackEndpoint(request.method, pathname);
+  return new Response(
+    JSON.stringify(healthData, null, 2),
+    { headers },
+  );
+}
+
+/**
+ * Per-request state passed through the router's middleware and handlers
+ */
+interface RequestContext {
+  /** Registry path of the request, without its API version */
+  path: string;
+  /** API version the path asked for (v1 for unversioned paths) */
+  apiVersion: ApiVersion;
+  /** Whether the path is a deprecated unversioned API path */
+  deprecated: boolean;
+  clientIP: string;
+  /** ID of the request in the logs, returned in problem details */
+  requestId: string;
+}
+
+/**
+ * Records endpoint coverage for every request
+ */
+const trackCoverage: Middleware<RequestContext> = (
+  request,
+  context,
+  next,
+) => {
+  coverageTracker.trackEndpoint(request.method, context.path);
   coverageTracker.trackFunction("handleRequest");
+  return next();
+};
 
-  // Handle CORS preflight requests for API endpoints
-  if (
-    request.method === "OPTIONS" &&
-    (pathname === "/api/encrypt" || pathname === "/api/decrypt" ||
-      pathname === "/api/track-access")
-  ) {
+/**
+ * Adds deprecation headers to responses for unversioned API paths
+ */
+const deprecation: Middleware<RequestContext> = async (
+  _request,
+  context,
+  next,
+) => {
+  const response = await next();
+  if (context.deprecated) {
+    setDeprecationHeaders(response.headers, context.path);
+  }
+  return response;
+};
+
+/**
+ * Traces the request as an API request-handler span
+ */
+const traced: Middleware<RequestContext> = (request, context, next) =>
+  TracingHelpers.traceAPI("request-handler", next, {
+    "api.operation": findRoute(context.path)?.operationId ?? context.path,
+    "http.method": request.method,
+    "http.route": context.path,
+    "client.ip": context.clientIP,
+  });
+
+/**
+ * Answers CORS preflight requests, and adds CORS headers to responses
+ */
+const cors: Middleware<RequestContext> = async (request, context, next) => {
+  const corsHeaders = SecurityUtils.createCorsHeaders(request);
+
+  if (request.method === "OPTIONS") {
     const headers = SecurityUtils.createSecurityHeaders();
-    const corsHeaders = SecurityUtils.createCorsHeaders(request);
     for (const [key, value] of corsHeaders.entries()) {
       headers.set(key, value);
     }
 
     logger.info("CORS preflight request handled", {
-      endpoint: pathname,
+      endpoint: context.path,
       origin: request.headers.get("origin"),
       method: request.headers.get("access-control-request-method"),
     }, LogCategory.API);
@@ -1304,206 +2499,396 @@ async function handleRequest(request: Request): Promise<Response> {
     return new Response(null, { status: 204, headers });
   }
 
-  // API endpoints
-  if (pathname === "/api/encrypt") {
-    return handleApiRequest(request, "encrypt");
+  const response = await next();
+  for (const [key, value] of corsHeaders.entries()) {
+    response.headers.set(key, value);
   }
+  return response;
+};
 
-  if (pathname === "/api/decrypt") {
-    return handleApiRequest(request, "decrypt");
-  }
+/**
+ * Turns errors thrown by API middleware and handlers into API responses
+ */
+const apiErrors: Middleware<RequestContext> = async (
+  request,
+  context,
+  next,
+) => {
+  try {
+    return await next();
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return createErrorResponse(error, request, context.requestId);
+    }
 
-  if (pathname === "/api/track-access") {
-    return await handleTrackAccess(request);
+    logger.error(
+      "Unexpected error in API request",
+      error instanceof Error ? error : new Error(String(error)),
+      { path: context.path, clientIP: context.clientIP },
+      LogCategory.API,
+    );
+    return createErrorResponse(
+      new ApiError("Internal server error"),
+      request,
+      context.requestId,
+    );
   }
+};
 
-  // CSP violation reporting endpoint
-  if (pathname === "/api/csp-report" && request.method === "POST") {
-    try {
-      const report = await request.json();
+/**
+ * Creates middleware that counts the request against one of the client's
+ * rate limits
+ * @param bucket - The rate limit to count against
+ * @returns The middleware, which throws ApiError 429 if the client is over
+ * the limit
+ */
+function rateLimit(bucket: RateLimitBucket): Middleware<RequestContext> {
+  return (_request, context, next) => {
+    if (!RateLimiter.checkRateLimit(context.clientIP, 1, bucket)) {
+      throw new ApiError("Rate limit exceeded", 429, "RATE_LIMIT_EXCEEDED");
+    }
+    return next();
+  };
+}
 
-      logger.security(
-        SecurityEvent.CSP_VIOLATION,
-        "CSP violation reported",
-        {
-          documentUri: report["csp-report"]?.["document-uri"],
-          violatedDirective: report["csp-report"]?.["violated-directive"],
-          blockedUri: report["csp-report"]?.["blocked-uri"],
-          lineNumber: report["csp-report"]?.["line-number"],
-          columnNumber: report["csp-report"]?.["column-number"],
-          sourceFile: report["csp-report"]?.["source-file"],
-          referrer: report["csp-report"]?.["referrer"],
-          clientIP: SecurityUtils.getClientIP(request),
-        },
+/**
+ * Requires the API key when one is configured
+ * @throws ApiError if the API key is missing or invalid
+ */
+const requireApiKey: Middleware<RequestContext> = (request, _context, next) => {
+  validateApiKey(request);
+  return next();
+};
+
+/**
+ * Creates middleware that rejects bodies declared larger than a limit
+ * @param maxBytes - The largest Content-Length allowed
+ * @returns The middleware, which throws ApiError 413 for larger bodies
+ */
+function bodyLimit(maxBytes: number): Middleware<RequestContext> {
+  return (request, _context, next) => {
+    const contentLength = request.headers.get("content-length");
+    if (contentLength && parseInt(contentLength) > maxBytes) {
+      throw new ApiError("Request too large", 413, "REQUEST_TOO_LARGE");
+    }
+    return next();
+  };
+}
+
+/**
+ * Creates middleware that requires a content type
+ * @param mediaType - The content type, such as 'application/json'
+ * @returns The middleware, which throws ApiError 400 for other types
+ */
+function contentType(mediaType: string): Middleware<RequestContext> {
+  return (request, _context, next) => {
+    if (!SecurityUtils.isValidContentType(request, mediaType)) {
+      throw new ApiError(
+        `Invalid content type. Expected ${mediaType}`,
+        400,
+        "INVALID_CONTENT_TYPE",
       );
+    }
+    return next();
+  };
+}
 
-      // Return 204 No Content for successful report
-      return new Response(null, { status: 204 });
-    } catch (error) {
-      logger.error("Failed to process CSP report", error as Error, {
-        clientIP: SecurityUtils.getClientIP(request),
-      }, LogCategory.SECURITY);
+/**
+ * Requires HTTP Basic Auth with DASH_USER and DASH_PASS, except in
+ * development mode or on localhost
+ */
+const dashboardAuth: Middleware<RequestContext> = (
+  request,
+  context,
+  next,
+) => {
+  // Check if development mode - bypass auth
+  const isDevelopment = Deno.env.get("NODE_ENV") === "development";
+  const isLocalhost = request.headers.get("host")?.includes("localhost") ||
+    request.headers.get("host")?.includes("127.0.0.1");
+
+  if (isDevelopment || isLocalhost) {
+    return next();
+  }
+
+  // Production mode - require HTTP Basic Auth
+  const authHeader = request.headers.get("authorization");
+  const dashUser = Deno.env.get("DASH_USER");
+  const dashPass = Deno.env.get("DASH_PASS");
+
+  if (!dashUser || !dashPass) {
+    logger.error(
+      "Dashboard credentials not configured",
+      new Error("Missing DASH_USER or DASH_PASS"),
+      { path: context.path },
+      LogCategory.SECURITY,
+    );
+    return Promise.resolve(
+      new Response("Service Unavailable", { status: 503 }),
+    );
+  }
 
-      // Still return success to avoid retries
-      return new Response(null, { status: 204 });
+  // Parse Basic Auth header
+  let authenticated = false;
+  if (authHeader?.startsWith("Basic ")) {
+    try {
+      const credentials = authHeader.slice(6);
+      const decoded = atob(credentials);
+      const [user, pass] = decoded.split(":");
+
+      // Constant-time comparison for security
+      authenticated = user === dashUser && pass === dashPass;
+    } catch (error) {
+      logger.debug("Invalid auth header format", {
+        category: LogCategory.SECURITY,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
-  // Health check endpoint with enhanced metrics
-  if (pathname === "/health") {
-    const headers = SecurityUtils.createSecurityHeaders();
-    headers.set("Content-Type", "application/json");
-
-    const metrics = logger.getMetrics();
-    const securitySummary = logger.getSecuritySummary();
-
-    // Defensive checks for metrics
-    const uptime = metrics?.uptime || 0;
-    const startTime = uptime > 0
-      ? new Date(Date.now() - uptime * 1000).toISOString()
-      : new Date().toISOString();
-
-    const healthData = {
-      status: "healthy",
-      timestamp: new Date().toISOString(),
-      version: VERSION,
-      buildInfo: VersionUtils?.getDetailedInfo
-        ? VersionUtils.getDetailedInfo()
-        : null,
-      server: {
-        runtime: `Deno ${Deno.version?.deno || "unknown"}`,
-        platform: TECH_SPECS?.platform || "unknown",
-        uptime: uptime,
-        startTime: startTime,
-      },
-      security: {
-        rateLimiting: SECURITY_INFO?.rateLimiting || {},
-        headersApplied: SECURITY_INFO?.securityHeaders?.length || 0,
-        headers: SECURITY_INFO?.securityHeaders || [],
-        apiKeyRequired: !!Deno.env.get("API_KEY"),
-        securityEvents: securitySummary || {},
-        compliance: SECURITY_COMPLIANCE || {},
-      },
-      environment: {
-        saltConfigured: !!Deno.env.get("SALT_HEX"),
-        apiKeyConfigured: !!Deno.env.get("API_KEY"),
-        nodeEnv: Deno.env.get("NODE_ENV") || "production",
-        logLevel: Deno.env.get("LOG_LEVEL") || "INFO",
-      },
-      endpoints: TECH_SPECS?.endpoints || [],
-      crypto: {
-        features: TECH_SPECS?.cryptoFeatures || [],
-        webCryptoAvailable: !!globalThis.crypto?.subtle,
-      },
-      metrics: {
-        requests: {
-          total: metrics?.totalRequests || 0,
-          successful: metrics?.successfulRequests || 0,
-          failed: metrics?.failedRequests || 0,
-          successRate: (metrics?.totalRequests || 0) > 0
-            ? Math.round(
-              ((metrics?.successfulRequests || 0) /
-                (metrics?.totalRequests || 1)) * 100,
-            )
-            : 0,
-        },
-        performance: {
-          averageResponseTime: Math.round(metrics?.averageResponseTime || 0),
-          metricsResetTime: metrics?.resetTime || new Date().toISOString(),
-        },
-        endpoints: metrics?.endpointStats
-          ? Object.fromEntries(metrics.endpointStats)
-          : {},
-        security: securitySummary || {},
+  if (!authenticated) {
+    logger.security(
+      SecurityEvent.UNAUTHORIZED_ACCESS,
+      "Unauthorized dashboard access attempt",
+      {
+        clientIP: context.clientIP,
+        path: context.path,
+        hasAuthHeader: !!authHeader,
       },
-      coverage: coverageTracker.getRuntimeCoverage(),
-    };
-
-    // Health endpoint logging is now handled by handleRequestWithTiming
-    // to ensure accurate response time measurement
+    );
 
-    return new Response(
-      JSON.stringify(healthData, null, 2),
-      { headers },
+    const headers = SecurityUtils.createSecurityHeaders();
+    headers.set("WWW-Authenticate", 'Basic realm="Salty Admin Dashboard"');
+    return Promise.resolve(
+      new Response("Authentication Required", {
+        status: 401,
+        headers,
+      }),
     );
   }
 
-  // Admin dashboard (protected route)
-  if (pathname === "/dash" || pathname === "/dash/") {
-    // Check if development mode - bypass auth
-    const isDevelopment = Deno.env.get("NODE_ENV") === "development";
-    const isLocalhost = request.headers.get("host")?.includes("localhost") ||
-      request.headers.get("host")?.includes("127.0.0.1");
-
-    if (!isDevelopment && !isLocalhost) {
-      // Production mode - require HTTP Basic Auth
-      const authHeader = request.headers.get("authorization");
-      const dashUser = Deno.env.get("DASH_USER");
-      const dashPass = Deno.env.get("DASH_PASS");
-
-      if (!dashUser || !dashPass) {
-        logger.error(
-          "Dashboard credentials not configured",
-          new Error("Missing DASH_USER or DASH_PASS"),
-          { path: pathname },
-          LogCategory.SECURITY,
-        );
-        return new Response("Service Unavailable", { status: 503 });
-      }
-
-      // Parse Basic Auth header
-      let authenticated = false;
-      if (authHeader?.startsWith("Basic ")) {
-        try {
-          const credentials = authHeader.slice(6);
-          const decoded = atob(credentials);
-          const [user, pass] = decoded.split(":");
+  return next();
+};
 
-          // Constant-time comparison for security
-          authenticated = user === dashUser && pass === dashPass;
-        } catch (error) {
-          logger.debug("Invalid auth header format", {
-            category: LogCategory.SECURITY,
-            error: error instanceof Error ? error.message : String(error),
-          });
-        }
-      }
+/** Methods allowed on API endpoints, including CORS preflight */
+const API_METHODS = ["POST", "OPTIONS"];
+/** Methods allowed on pages and static files */
+const STATIC_METHODS = ["GET", "HEAD"];
 
-      if (!authenticated) {
-        logger.security(
-          SecurityEvent.UNAUTHORIZED_ACCESS,
-          "Unauthorized dashboard access attempt",
-          {
-            clientIP: SecurityUtils.getClientIP(request),
-            path: pathname,
-            hasAuthHeader: !!authHeader,
-          },
-        );
+/**
+ * Middleware for API endpoints that take JSON, outermost first: every such
+ * endpoint is rate-limited and checks the API key before reading the body
+ */
+const JSON_API_MIDDLEWARE = [
+  traced,
+  cors,
+  apiErrors,
+  rateLimit(API_RATE_LIMIT),
+  requireApiKey,
+  bodyLimit(MAX_PAYLOAD_SIZE),
+  contentType("application/json"),
+];
+
+/** Middleware for the streaming API endpoints, outermost first */
+const STREAM_API_MIDDLEWARE = [
+  traced,
+  cors,
+  apiErrors,
+  rateLimit(API_RATE_LIMIT),
+  requireApiKey,
+  bodyLimit(MAX_STREAM_SIZE),
+  contentType("application/octet-stream"),
+];
 
-        const headers = SecurityUtils.createSecurityHeaders();
-        headers.set("WWW-Authenticate", 'Basic realm="Salty Admin Dashboard"');
-        return new Response("Authentication Required", {
-          status: 401,
-          headers,
-        });
-      }
+/**
+ * Routes every request. API paths are routed by their registry path, so
+ * /api/encrypt, /api/v1/encrypt and /api/v2/encrypt share a route.
+ */
+const router = new Router<RequestContext>({
+  notFound: () => Promise.resolve(notFoundResponse()),
+  methodNotAllowed: (request, context) => {
+    if (context.path.startsWith("/api/")) {
+      return Promise.resolve(
+        createErrorResponse(
+          new ApiError("Method not allowed", 405, "METHOD_NOT_ALLOWED"),
+          request,
+          context.requestId,
+        ),
+      );
     }
+    const headers = SecurityUtils.createSecurityHeaders();
+    headers.set("Content-Type", "text/plain; charset=utf-8");
+    return Promise.resolve(new Response("Method Not Allowed", { headers }));
+  },
+}).use(trackCoverage, deprecation);
+
+for (const operation of ["encrypt", "decrypt"] as const) {
+  router
+    .add({
+      path: `/api/${operation}`,
+      methods: API_METHODS,
+      middleware: JSON_API_MIDDLEWARE,
+      handler: (request, context) =>
+        handleApiRequest(request, context, operation),
+    })
+    .add({
+      path: `/api/batch/${operation}`,
+      methods: API_METHODS,
+      middleware: JSON_API_MIDDLEWARE,
+      handler: (request, context) =>
+        handleBatchRequest(request, context, operation),
+    })
+    .add({
+      path: `/api/${operation}-stream`,
+      methods: API_METHODS,
+      middleware: STREAM_API_MIDDLEWARE,
+      handler: (request, context) =>
+        Promise.resolve(handleStreamRequest(request, context, operation)),
+    });
+}
 
-    // Serve dashboard
-    return serveFile("/dashboard.html");
-  }
+for (const operation of ["split", "combine"] as const) {
+  router.add({
+    path: `/api/shares/${operation}`,
+    methods: API_METHODS,
+    middleware: JSON_API_MIDDLEWARE,
+    handler: (request, context) =>
+      handleSharesRequest(request, context, operation),
+  });
+}
+
+router
+  .add({
+    path: "/api/verify",
+    methods: API_METHODS,
+    middleware: JSON_API_MIDDLEWARE,
+    handler: handleVerifyRequest,
+  })
+  .add({
+    path: "/api/rekey",
+    methods: API_METHODS,
+    middleware: JSON_API_MIDDLEWARE,
+    handler: handleRekeyRequest,
+  })
+  // The page sends this beacon whenever a shared link is opened, so it is
+  // not keyed and has a rate limit of its own: it must not use up a
+  // client's API quota, but each call fetches from dbFLEX
+  .add({
+    path: "/api/track-access",
+    methods: API_METHODS,
+    middleware: [
+      traced,
+      cors,
+      apiErrors,
+      rateLimit(TRACK_ACCESS_RATE_LIMIT),
+      bodyLimit(MAX_TRACK_ACCESS_SIZE),
+      contentType("application/json"),
+    ],
+    handler: handleTrackAccess,
+  })
+  // Client generators may fetch the document from other origins
+  .add({
+    path: "/api/openapi.json",
+    methods: ["GET"],
+    middleware: [cors],
+    handler: (_request, context) => {
+      const headers = SecurityUtils.createSecurityHeaders();
+      headers.set("Content-Type", "application/json");
+      return Promise.resolve(
+        new Response(OPENAPI_JSON[context.apiVersion], { headers }),
+      );
+    },
+  })
+  .add({
+    path: "/api/docs",
+    methods: ["GET"],
+    handler: (_request, context) => {
+      const headers = SecurityUtils.createSecurityHeaders();
+      headers.set("Content-Type", "text/html; charset=utf-8");
+      return Promise.resolve(
+        new Response(API_DOCS_HTML[context.apiVersion], { headers }),
+      );
+    },
+  })
+  .add({
+    path: "/api/csp-report",
+    methods: ["POST"],
+    middleware: [apiErrors, bodyLimit(MAX_PAYLOAD_SIZE)],
+    handler: handleCspReport,
+  })
+  .add({
+    path: "/health",
+    methods: ["GET"],
+    handler: () => Promise.resolve(handleHealthRequest()),
+  })
+  .add({
+    path: "/img/*",
+    methods: STATIC_METHODS,
+    handler: (_request, context) =>
+      serveDirectoryFile(
+        "./img",
+        context.path.slice("/img/".length),
+        (fileName) => fileName.endsWith(".svg"),
+      ),
+  })
+  .add({
+    path: "/.well-known/*",
+    methods: STATIC_METHODS,
+    handler: (_request, context) =>
+      serveDirectoryFile(
+        "./.well-known",
+        context.path.slice("/.well-known/".length),
+        (fileName) => WELL_KNOWN_FILES.includes(fileName),
+      ),
+  });
+
+for (const path of ["/dash", "/dash/"]) {
+  router.add({
+    path,
+    methods: STATIC_METHODS,
+    middleware: [dashboardAuth],
+    handler: () => serveFile("./dashboard.html"),
+  });
+}
+
+for (const [path, filePath] of Object.entries(STATIC_FILES)) {
+  router.add({
+    path,
+    methods: STATIC_METHODS,
+    handler: () => serveFile(filePath),
+  });
+}
 
-  // Static file serving
-  return serveFile(pathname);
+for (const path of BROWSER_MODULES) {
+  router.add({
+    path,
+    methods: STATIC_METHODS,
+    handler: () => serveBrowserModule(path),
+  });
 }
 
 /**
- * Cleanup task for rate limiting - removes expired entries to prevent memory leaks
- * Runs every 5 minutes
+ * Main request handler that routes requests to appropriate handlers
+ * @param request - The incoming HTTP request
+ * @param requestId - ID of the request in the logs
+ * @returns HTTP Response for the request
  */
-setInterval(() => {
-  RateLimiter.cleanupExpiredEntries();
-}, 5 * 60 * 1000);
+export function handleRequest(
+  request: Request,
+  requestId: string,
+): Promise<Response> {
+  // Versioned API paths are routed by their registry path
+  const { path, version, deprecated } = resolveApiPath(
+    new URL(request.url).pathname,
+  );
+  return router.handle(request, path, {
+    path,
+    apiVersion: version,
+    deprecated,
+    clientIP: SecurityUtils.getClientIP(request),
+    requestId,
+  });
+}
 
 /**
  * Validates required environment variables on startup
@@ -1513,14 +2898,13 @@ function validateEnvironment(): void {
   coverageTracker.trackFunction("validateEnvironment");
   const saltHex = Deno.env.get("SALT_HEX");
 
+  // Messages carry their own salt; SALT_HEX only decrypts legacy messages
   if (!saltHex) {
-    logger.critical("SALT_HEX environment variable is required", {
-      missingVariable: "SALT_HEX",
-    });
-    Deno.exit(1);
-  }
-
-  if (!/^[0-9A-Fa-f]{32}$/.test(saltHex)) {
+    logger.warn(
+      "SALT_HEX not set - legacy messages without a salt header cannot be decrypted",
+      { missingVariable: "SALT_HEX" },
+    );
+  } else if (!/^[0-9A-Fa-f]{32}$/.test(saltHex)) {
     logger.critical("SALT_HEX must be a 32-character hexadecimal string", {
       saltHexLength: saltHex.length,
       saltHexFormat: "invalid",
@@ -1555,57 +2939,17 @@ function validateEnvironment(): void {
     }
   }
 
+  if (keyCache) {
+    const { ttlSeconds, maxEntries } = keyCache.getStats();
+    logger.info("Derived-key cache enabled", { ttlSeconds, maxEntries });
+  }
+
   logger.info("Environment validation passed", {
-    saltHexConfigured: true,
+    saltHexConfigured: !!saltHex,
     apiKeyConfigured: !!apiKey,
     apiKeyLength: apiKey?.length || 0,
     dbflexTrackingEnabled: dbflexTracking,
-  });
-}
-
-/**
- * Application startup and server initialization
- */
-
-// Validate environment variables before starting
-validateEnvironment();
-
-logger.info(`Starting Salty v${VERSION} with enhanced security`, {
-  version: VERSION,
-  buildInfo: VersionUtils.getExtendedVersion(),
-  rateLimitConfig: SECURITY_INFO.rateLimiting,
-  maxPayloadSize: `${MAX_PAYLOAD_SIZE / 1024}KB`,
-  securityFeatures: TECH_SPECS.securityFeatures.length,
-  endpoints: TECH_SPECS.endpoints,
-});
-
-/**
- * Register SIGUSR2 handler for low memory detection (Deno 2.4+)
- * @description Logs critical alert when Deno detects low memory conditions
- */
-try {
-  Deno.addSignalListener("SIGUSR2", () => {
-    const memoryUsage = Deno.memoryUsage();
-    logger.critical("Low memory condition detected by Deno runtime", {
-      category: LogCategory.SYSTEM,
-      memoryUsage: {
-        rss: `${Math.round(memoryUsage.rss / 1024 / 1024)}MB`,
-        heapTotal: `${Math.round(memoryUsage.heapTotal / 1024 / 1024)}MB`,
-        heapUsed: `${Math.round(memoryUsage.heapUsed / 1024 / 1024)}MB`,
-        external: `${Math.round(memoryUsage.external / 1024 / 1024)}MB`,
-      },
-      timestamp: new Date().toISOString(),
-    });
-  });
-
-  logger.debug("SIGUSR2 handler registered for low memory monitoring", {
-    category: LogCategory.SYSTEM,
-  });
-} catch (error) {
-  // Gracefully handle if SIGUSR2 is not supported (e.g., on Windows)
-  logger.debug("Could not register SIGUSR2 handler", {
-    category: LogCategory.SYSTEM,
-    reason: error instanceof Error ? error.message : "Unknown error",
+    keyCacheEnabled: !!keyCache,
   });
 }
 
@@ -1619,7 +2963,7 @@ async function handleRequestWithTiming(request: Request): Promise<Response> {
   const clientIP = SecurityUtils.getClientIP(request);
 
   try {
-    const response = await handleRequest(request);
+    const response = await handleRequest(request, requestId);
 
     // Log successful requests with proper timing (but skip duplicate health logging)
     if (url.pathname !== "/health") {
@@ -1637,12 +2981,14 @@ async function handleRequestWithTiming(request: Request): Promise<Response> {
     return response;
   } catch (error) {
     const responseTime = performance.now() - startTime;
-    const status = error instanceof ApiError ? error.statusCode : 500;
+    const apiError = error instanceof ApiError
+      ? error
+      : new ApiError("Internal server error");
 
     logger.apiRequest(
       request.method,
       url.pathname,
-      status,
+      apiError.statusCode,
       responseTime,
       clientIP,
       requestId,
@@ -1650,23 +2996,108 @@ async function handleRequestWithTiming(request: Request): Promise<Response> {
     );
 
     // Return proper error response
-    const headers = SecurityUtils.createSecurityHeaders();
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : "Internal server error",
-        timestamp: new Date().toISOString(),
-      }),
-      {
-        status,
-        headers,
-      },
-    );
+    return createErrorResponse(apiError, request, requestId);
   }
 }
 
 /**
- * Start the Deno HTTP server
- * @description Starts the server on port 8000 with the main request handler
+ * Marks a response to an unversioned /api/* path as deprecated (RFC 9745)
+ * with a sunset date (RFC 8594), and links its v1 successor
+ * @param headers - The response headers
+ * @param path - The registry path of the route
+ */
+function setDeprecationHeaders(headers: Headers, path: string): void {
+  const deprecation = Date.parse(`${UNVERSIONED_DEPRECATION_DATE}T00:00:00Z`);
+  headers.set("Deprecation", `@${deprecation / 1000}`);
+  headers.set(
+    "Sunset",
+    new Date(`${UNVERSIONED_SUNSET_DATE}T00:00:00Z`).toUTCString(),
+  );
+  headers.append(
+    "Link",
+    `<${versionedPath(path, "v1")}>; rel="successor-version"`,
+  );
+}
+
+/**
+ * Application startup and server initialization. Only runs when this is the
+ * main module, so tests can import the request handlers without a server.
  */
-Deno.serve({ port: 8000 }, handleRequestWithTiming);
+if (import.meta.main) {
+  // Validate environment variables before starting
+  validateEnvironment();
+
+  // Refuse to serve if the crypto primitives give wrong answers
+  const selfTest = await runSelfTest();
+  if (!selfTest.passed) {
+    logger.critical("Cryptographic self-test failed - refusing to start", {
+      category: LogCategory.SYSTEM,
+      failures: selfTest.failures,
+    });
+    Deno.exit(1);
+  }
+  logger.info("Cryptographic self-test passed", {
+    tests: KNOWN_ANSWER_TESTS.map((test) => test.name),
+  });
+
+  logger.info(`Starting Salty v${VERSION} with enhanced security`, {
+    version: VERSION,
+    buildInfo: VersionUtils.getExtendedVersion(),
+    rateLimitConfig: SECURITY_INFO.rateLimiting,
+    maxPayloadSize: `${MAX_PAYLOAD_SIZE / 1024}KB`,
+    securityFeatures: TECH_SPECS.securityFeatures.length,
+    endpoints: TECH_SPECS.endpoints,
+  });
+
+  /**
+   * Register SIGUSR2 handler for low memory detection (Deno 2.4+)
+   * @description Logs critical alert when Deno detects low memory conditions
+   */
+  try {
+    Deno.addSignalListener("SIGUSR2", () => {
+      const memoryUsage = Deno.memoryUsage();
+      logger.critical("Low memory condition detected by Deno runtime", {
+        category: LogCategory.SYSTEM,
+        memoryUsage: {
+          rss: `${Math.round(memoryUsage.rss / 1024 / 1024)}MB`,
+          heapTotal: `${Math.round(memoryUsage.heapTotal / 1024 / 1024)}MB`,
+          heapUsed: `${Math.round(memoryUsage.heapUsed / 1024 / 1024)}MB`,
+          external: `${Math.round(memoryUsage.external / 1024 / 1024)}MB`,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    logger.debug("SIGUSR2 handler registered for low memory monitoring", {
+      category: LogCategory.SYSTEM,
+    });
+  } catch (error) {
+    // Gracefully handle if SIGUSR2 is not supported (e.g., on Windows)
+    logger.debug("Could not register SIGUSR2 handler", {
+      category: LogCategory.SYSTEM,
+      reason: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  /**
+   * Cleanup task for rate limiting - removes expired entries to prevent memory leaks
+   * Runs every 5 minutes
+   */
+  setInterval(() => {
+    RateLimiter.cleanupExpiredEntries();
+  }, 5 * 60 * 1000);
+
+  /**
+   * Drops expired derived keys every minute, so idle keys do not outlive
+   * their TTL by long
+   */
+  if (keyCache) {
+    setInterval(() => keyCache.pruneExpired(), 60 * 1000);
+  }
+
+  /**
+   * Start the Deno HTTP server
+   * @description Starts the server on port 8000 with the main request handler
+   */
+  Deno.serve({ port: 8000 }, handleRequestWithTiming);
+}
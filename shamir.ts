@@ -0,0 +1,319 @@
+/**
+ * @fileoverview Shamir secret sharing over GF(256)
+ * @description Splits a secret into N shares so that any K of them recover
+ * it and fewer reveal nothing about it, for break-glass credentials that no
+ * single person should hold. Each share is an armored SALTY SHARE block
+ * carrying its index and the threshold.
+ */
+
+import { formatArmor, parseArmor } from "./armor.ts";
+import { base91_decode, base91_encode } from "./salty.ts";
+
+/** Armor label for shares */
+const SHARE_LABEL = "SALTY SHARE";
+
+/** Current share format version */
+export const SHARE_FORMAT_VERSION = 1;
+
+/** Most shares a secret can be split into: one per non-zero field element */
+export const MAX_SHARES = 255;
+
+/** Length of the random id that ties the shares of one split together */
+const SHARE_SET_ID_LENGTH = 4;
+
+/** Bytes before the share data: version, threshold, index and set id */
+const SHARE_HEADER_LENGTH = 3 + SHARE_SET_ID_LENGTH;
+
+/** Reduction polynomial of GF(256), x^8 + x^4 + x^3 + x + 1 (as in AES) */
+const GF_POLY = 0x11B;
+
+/**
+ * One share of a split secret
+ */
+export interface ShamirShare {
+  /** The x coordinate, 1 to 255 */
+  index: number;
+  /** How many shares recover the secret */
+  threshold: number;
+  /** Random id shared by every share of one split */
+  setId: Uint8Array;
+  /** The polynomials evaluated at index, one byte per secret byte */
+  data: Uint8Array;
+}
+
+/**
+ * Options for salty_split
+ */
+export interface SaltySplitOptions {
+  /** A Comment header for every share, such as who holds it */
+  comment?: string;
+}
+
+/**
+ * Multiplies in GF(256). Branch-free shift-and-add, so the time taken does
+ * not depend on secret bytes the way table lookups can.
+ */
+function gfMul(a: number, b: number): number {
+  let product = 0;
+  for (let i = 0; i < 8; i++) {
+    product ^= -(b & 1) & a;
+    a = (a << 1) ^ (-(a >> 7) & GF_POLY);
+    b >>= 1;
+  }
+  return product & 0xFF;
+}
+
+/**
+ * Inverts a non-zero element of GF(256) as a^254.
+ */
+function gfInv(a: number): number {
+  let result = 1;
+  let power = a;
+  for (let exponent = 254; exponent > 0; exponent >>= 1) {
+    if (exponent & 1) {
+      result = gfMul(result, power);
+    }
+    power = gfMul(power, power);
+  }
+  return result;
+}
+
+/**
+ * Checks a share count and threshold.
+ */
+function validateCounts(shares: number, threshold: number): void {
+  if (!Number.isInteger(shares) || shares < 2 || shares > MAX_SHARES) {
+    throw new Error(`Share count must be between 2 and ${MAX_SHARES}`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > shares) {
+    throw new Error("Threshold must be between 2 and the share count");
+  }
+}
+
+/**
+ * Splits a secret into shares. Each byte gets its own random polynomial of
+ * degree threshold - 1 whose constant term is the byte; share i holds the
+ * polynomials evaluated at x = i.
+ * @param secret The secret bytes.
+ * @param shares How many shares to make (2 to 255).
+ * @param threshold How many shares recover the secret (2 to shares).
+ * @returns The shares, with indexes 1 to shares.
+ * @throws Error if the secret is empty or the counts are out of range
+ */
+export function splitSecret(
+  secret: Uint8Array,
+  shares: number,
+  threshold: number,
+): ShamirShare[] {
+  validateCounts(shares, threshold);
+  if (secret.length === 0) {
+    throw new Error("Secret must not be empty");
+  }
+
+  const setId = crypto.getRandomValues(new Uint8Array(SHARE_SET_ID_LENGTH));
+  const result: ShamirShare[] = [];
+  for (let index = 1; index <= shares; index++) {
+    result.push({
+      index,
+      threshold,
+      setId: setId.slice(),
+      data: new Uint8Array(secret.length),
+    });
+  }
+
+  // coefficients[0] is the secret byte; the rest are random
+  const coefficients = new Uint8Array(threshold);
+  for (let position = 0; position < secret.length; position++) {
+    coefficients[0] = secret[position];
+    crypto.getRandomValues(coefficients.subarray(1));
+    for (const share of result) {
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = gfMul(y, share.index) ^ coefficients[c];
+      }
+      share.data[position] = y;
+    }
+  }
+  coefficients.fill(0);
+  return result;
+}
+
+/**
+ * Recovers a secret from at least threshold shares of one split. Extra
+ * shares are ignored.
+ * @param shares The shares, in any order.
+ * @returns The secret bytes.
+ * @throws Error if there are too few shares, or they are from different
+ * splits, repeat an index or differ in length
+ */
+export function combineShares(shares: ShamirShare[]): Uint8Array {
+  const first = shares[0];
+  if (!first) {
+    throw new Error("No shares given");
+  }
+  const sameSplit = (share: ShamirShare) =>
+    share.threshold === first.threshold &&
+    share.data.length === first.data.length &&
+    share.setId.length === first.setId.length &&
+    share.setId.every((byte, i) => byte === first.setId[i]);
+  if (!shares.every(sameSplit)) {
+    throw new Error("Shares are from different splits");
+  }
+  const indexes = new Set(shares.map((share) => share.index));
+  if (indexes.size !== shares.length) {
+    throw new Error("Shares repeat an index");
+  }
+  if (shares.length < first.threshold) {
+    throw new Error(
+      `${first.threshold} shares are needed, but only ${shares.length} were given`,
+    );
+  }
+
+  // Lagrange basis at x = 0: product of x_j / (x_j - x_i); subtraction is
+  // XOR in GF(256)
+  const used = shares.slice(0, first.threshold);
+  const basis = used.map((share) => {
+    let numerator = 1;
+    let denominator = 1;
+    for (const other of used) {
+      if (other !== share) {
+        numerator = gfMul(numerator, other.index);
+        denominator = gfMul(denominator, other.index ^ share.index);
+      }
+    }
+    return gfMul(numerator, gfInv(denominator));
+  });
+
+  const secret = new Uint8Array(first.data.length);
+  for (let position = 0; position < secret.length; position++) {
+    let byte = 0;
+    for (let i = 0; i < used.length; i++) {
+      byte ^= gfMul(used[i].data[position], basis[i]);
+    }
+    secret[position] = byte;
+  }
+  return secret;
+}
+
+/**
+ * Formats a share as an armored SALTY SHARE block. The Share and Threshold
+ * headers are for the people holding the shares; the body carries the
+ * same values for combining.
+ *
+ * Body: basE91(version(1) | threshold(1) | index(1) | set id(4) | data).
+ *
+ * @param share A share from splitSecret.
+ * @param options Comment header.
+ * @returns The armored share.
+ * @throws Error if the comment spans several lines
+ */
+export function formatShare(
+  share: ShamirShare,
+  options: SaltySplitOptions = {},
+): string {
+  const encoded = new Uint8Array(SHARE_HEADER_LENGTH + share.data.length);
+  encoded.set([SHARE_FORMAT_VERSION, share.threshold, share.index]);
+  encoded.set(share.setId, 3);
+  encoded.set(share.data, SHARE_HEADER_LENGTH);
+  const body = base91_encode(encoded);
+  encoded.fill(0);
+
+  return formatArmor(SHARE_LABEL, body, {
+    headers: {
+      version: String(SHARE_FORMAT_VERSION),
+      comment: options.comment,
+      share: String(share.index),
+      threshold: String(share.threshold),
+    },
+  });
+}
+
+/**
+ * Parses an armored SALTY SHARE block.
+ * @param text The armored share.
+ * @returns The share, or null if the armor, its checksum or the body is
+ * invalid, or the Share or Threshold header disagrees with the body.
+ */
+export function parseShare(text: string): ShamirShare | null {
+  const armored = parseArmor(text, SHARE_LABEL);
+  if (!armored || armored.checksumValid === false) {
+    return null;
+  }
+  const data = base91_decode(armored.body);
+  if (
+    !data || data.length <= SHARE_HEADER_LENGTH ||
+    data[0] !== SHARE_FORMAT_VERSION || data[1] < 2 || data[2] < 1 ||
+    data[2] > MAX_SHARES
+  ) {
+    return null;
+  }
+
+  const share: ShamirShare = {
+    threshold: data[1],
+    index: data[2],
+    setId: data.slice(3, SHARE_HEADER_LENGTH),
+    data: data.slice(SHARE_HEADER_LENGTH),
+  };
+  const { share: index, threshold } = armored.headers;
+  if (
+    (index !== undefined && index !== String(share.index)) ||
+    (threshold !== undefined && threshold !== String(share.threshold))
+  ) {
+    return null;
+  }
+  return share;
+}
+
+/**
+ * Splits a text into armored shares, any threshold of which recover it.
+ * @param payload The text to split, such as a break-glass credential.
+ * @param shares How many shares to make (2 to 255).
+ * @param threshold How many shares recover the text (2 to shares).
+ * @param options Comment header for the shares.
+ * @returns The armored shares, in index order.
+ * @throws Error if the text is empty or the counts are out of range
+ */
+export function salty_split(
+  payload: string,
+  shares: number,
+  threshold: number,
+  options: SaltySplitOptions = {},
+): string[] {
+  const secret = new TextEncoder().encode(payload);
+  try {
+    return splitSecret(secret, shares, threshold).map((share) =>
+      formatShare(share, options)
+    );
+  } finally {
+    secret.fill(0);
+  }
+}
+
+/**
+ * Recovers a text from armored shares.
+ * @param armored At least threshold armored shares of one split.
+ * @returns The text.
+ * @throws Error if a share is invalid, there are too few, they do not
+ * belong together, or they do not combine to text
+ */
+export function salty_combine(armored: string[]): string {
+  const shares = armored.map((text, i) => {
+    const share = parseShare(text);
+    if (!share) {
+      throw new Error(`Share ${i + 1} is invalid`);
+    }
+    return share;
+  });
+
+  const secret = combineShares(shares);
+  try {
+    // Shares altered after splitting combine to noise, which is almost
+    // never valid UTF-8
+    return new TextDecoder("utf-8", { fatal: true }).decode(secret);
+  } catch {
+    throw new Error("Shares do not combine to text");
+  } finally {
+    secret.fill(0);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Tests for Shamir secret sharing
+ * @description Any threshold of shares recovers the secret, fewer or mixed
+ * shares are rejected, and armored shares round trip
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertNotEquals,
+  assertThrows,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { parseArmor } from "./armor.ts";
+import {
+  combineShares,
+  formatShare,
+  MAX_SHARES,
+  parseShare,
+  salty_combine,
+  salty_split,
+  splitSecret,
+} from "./shamir.ts";
+
+const SECRET = new TextEncoder().encode("root:correct horse battery staple");
+
+Deno.test("Shamir - any threshold of shares recovers the secret", () => {
+  const shares = splitSecret(SECRET, 5, 3);
+
+  assertEquals(shares.map((share) => share.index), [1, 2, 3, 4, 5]);
+  for (let a = 0; a < 5; a++) {
+    for (let b = a + 1; b < 5; b++) {
+      for (let c = b + 1; c < 5; c++) {
+        assertEquals(combineShares([shares[c], shares[a], shares[b]]), SECRET);
+      }
+    }
+  }
+  // Extra shares are ignored
+  assertEquals(combineShares(shares), SECRET);
+});
+
+Deno.test("Shamir - a single share does not hold the secret", () => {
+  const shares = splitSecret(new Uint8Array(64), 3, 2);
+
+  // Zero bytes would show through if the random coefficients were missing
+  for (const share of shares) {
+    assert(share.data.some((byte) => byte !== 0));
+  }
+  assertNotEquals(shares[0].data, shares[1].data);
+  // Splitting again gives different shares
+  assertNotEquals(
+    splitSecret(SECRET, 3, 2)[0].data,
+    splitSecret(SECRET, 3, 2)[0].data,
+  );
+});
+
+Deno.test("Shamir - the largest split", () => {
+  const shares = splitSecret(SECRET, MAX_SHARES, MAX_SHARES);
+
+  assertEquals(combineShares(shares.reverse()), SECRET);
+});
+
+Deno.test("Shamir - invalid splits and combinations", () => {
+  assertThrows(() => splitSecret(SECRET, 1, 1));
+  assertThrows(() => splitSecret(SECRET, 256, 2));
+  assertThrows(() => splitSecret(SECRET, 3, 4));
+  assertThrows(() => splitSecret(SECRET, 3, 1));
+  assertThrows(() => splitSecret(new Uint8Array(0), 3, 2));
+
+  const shares = splitSecret(SECRET, 5, 3);
+  assertThrows(() => combineShares([]), Error, "No shares");
+  assertThrows(
+    () => combineShares(shares.slice(0, 2)),
+    Error,
+    "3 shares are needed",
+  );
+  assertThrows(
+    () => combineShares([shares[0], shares[0], shares[1]]),
+    Error,
+    "repeat an index",
+  );
+  const other = splitSecret(SECRET, 5, 3);
+  assertThrows(
+    () => combineShares([shares[0], shares[1], other[2]]),
+    Error,
+    "different splits",
+  );
+});
+
+Deno.test("Shamir - armored shares", async (t) => {
+  await t.step("should carry the index and threshold", () => {
+    const shares = salty_split("secret", 5, 3, { comment: "For Alice" });
+    const armored = parseArmor(shares[1], "SALTY SHARE");
+
+    assertEquals(shares.length, 5);
+    assertEquals(armored?.headers, {
+      version: "1",
+      comment: "For Alice",
+      share: "2",
+      threshold: "3",
+    });
+    assertEquals(armored?.checksumValid, true);
+    assertEquals(parseShare(shares[1])?.index, 2);
+    assertEquals(parseShare(shares[1])?.threshold, 3);
+  });
+
+  await t.step("should combine any threshold of them", () => {
+    const shares = salty_split("日本語 and emoji 🔑", 4, 2);
+
+    assertEquals(salty_combine([shares[3], shares[0]]), "日本語 and emoji 🔑");
+    assertThrows(() => salty_combine([shares[3]]), Error, "2 shares");
+  });
+
+  await t.step("should reject damaged or edited shares", () => {
+    const share = splitSecret(SECRET, 3, 2)[0];
+    const armored = formatShare(share);
+
+    assertEquals(parseShare(armored.replace("Share: 1", "Share: 2")), null);
+    assertEquals(
+      parseShare(armored.replace("Threshold: 2", "Threshold: 3")),
+      null,
+    );
+    assertEquals(parseShare(armored.replace(/\n=.*\n/, "\n=AAAA\n")), null);
+    assertEquals(parseShare("not a share"), null);
+    assertThrows(
+      () => salty_combine([armored, "not a share"]),
+      Error,
+      "Share 2 is invalid",
+    );
+  });
+});
@@ -310,7 +310,14 @@ export async function getTracer() {
  */
 export const TracingHelpers = {
   traceCrypto: async <T>(
-    operation: "encrypt" | "decrypt" | "key-derivation",
+    operation:
+      | "encrypt"
+      | "decrypt"
+      | "verify"
+      | "rekey"
+      | "split"
+      | "combine"
+      | "key-derivation",
     fn: () => Promise<T> | T,
     attributes: SpanAttributes = {},
   ) => {
@@ -320,6 +327,14 @@ export const TracingHelpers = {
         ? SPAN_NAMES.KEY_DERIVATION
         : operation === "encrypt"
         ? SPAN_NAMES.ENCRYPT_OPERATION
+        : operation === "verify"
+        ? SPAN_NAMES.VERIFY_OPERATION
+        : operation === "rekey"
+        ? SPAN_NAMES.REKEY_OPERATION
+        : operation === "split"
+        ? SPAN_NAMES.SPLIT_OPERATION
+        : operation === "combine"
+        ? SPAN_NAMES.COMBINE_OPERATION
         : SPAN_NAMES.DECRYPT_OPERATION,
       fn,
       { "crypto.operation": operation, ...attributes },
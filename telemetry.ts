@@ -23,6 +23,10 @@ export const SPAN_NAMES = {
   KEY_DERIVATION: "crypto.key-derivation",
   ENCRYPT_OPERATION: "crypto.encrypt",
   DECRYPT_OPERATION: "crypto.decrypt",
+  VERIFY_OPERATION: "crypto.verify",
+  REKEY_OPERATION: "crypto.rekey",
+  SPLIT_OPERATION: "crypto.split",
+  COMBINE_OPERATION: "crypto.combine",
 
   // Security operations
   RATE_LIMIT_CHECK: "security.rate-limit-check",
@@ -290,7 +294,14 @@ export const TracingHelpers = {
    * Trace a crypto operation
    */
   traceCrypto: <T>(
-    operation: "encrypt" | "decrypt" | "key-derivation",
+    operation:
+      | "encrypt"
+      | "decrypt"
+      | "verify"
+      | "rekey"
+      | "split"
+      | "combine"
+      | "key-derivation",
     fn: () => Promise<T> | T,
     attributes: SpanAttributes = {},
   ) =>
@@ -299,6 +310,14 @@ export const TracingHelpers = {
         ? SPAN_NAMES.KEY_DERIVATION
         : operation === "encrypt"
         ? SPAN_NAMES.ENCRYPT_OPERATION
+        : operation === "verify"
+        ? SPAN_NAMES.VERIFY_OPERATION
+        : operation === "rekey"
+        ? SPAN_NAMES.REKEY_OPERATION
+        : operation === "split"
+        ? SPAN_NAMES.SPLIT_OPERATION
+        : operation === "combine"
+        ? SPAN_NAMES.COMBINE_OPERATION
         : SPAN_NAMES.DECRYPT_OPERATION,
       fn,
       { "crypto.operation": operation, ...attributes },
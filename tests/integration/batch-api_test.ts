@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Tests for the batch encrypt and decrypt endpoints
+ * @description Sends batch requests through the server's request handler:
+ * per-operation failures, batch validation and rate-limit weighting
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { handleRequest } from "../../server.ts";
+import { MAX_BATCH_ITEMS } from "../../api-schema.ts";
+
+/** One result of a batch response */
+interface BatchResult {
+  id: string;
+  success: boolean;
+  data?: string;
+  code?: string;
+}
+
+/**
+ * Sends a batch request from a client IP, which keeps each test's rate
+ * limit separate
+ */
+function sendBatch(
+  operation: "encrypt" | "decrypt",
+  body: unknown,
+  clientIP: string,
+): Promise<Response> {
+  const request = new Request(
+    `http://localhost:8000/api/v1/batch/${operation}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Forwarded-For": clientIP,
+      },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    },
+  );
+  return handleRequest(request, `test-${clientIP}`);
+}
+
+/** Reads the per-operation results of a successful batch response */
+async function resultsOf(response: Response): Promise<BatchResult[]> {
+  assertEquals(response.status, 200);
+  const body = await response.json();
+  return body.data.results;
+}
+
+/** Reads the error code of a failed response */
+async function errorCodeOf(response: Response): Promise<string> {
+  const body = await response.json();
+  return body.code;
+}
+
+Deno.test("Batch API - Per-operation results", async (t) => {
+  await t.step("should fail only the bad operation", async () => {
+    const results = await resultsOf(
+      await sendBatch("encrypt", {
+        operations: [
+          { id: "a", payload: "first record", key: "batch-test-key" },
+          { id: "b", payload: "", key: "batch-test-key" },
+          { id: "c", payload: "third record", key: "" },
+          { id: "d", payload: "fourth record", key: "batch-test-key" },
+        ],
+      }, "192.0.2.1"),
+    );
+
+    assertEquals(results.map((result) => result.id), ["a", "b", "c", "d"]);
+    assertEquals(results.map((result) => result.success), [
+      true,
+      false,
+      false,
+      true,
+    ]);
+    assertEquals(results[1].code, "INVALID_PAYLOAD");
+    assertEquals(results[2].code, "INVALID_KEY");
+  });
+
+  await t.step("should decrypt what the batch encrypted", async () => {
+    const encrypted = await resultsOf(
+      await sendBatch("encrypt", {
+        operations: [
+          { id: "1", payload: "record one", key: "batch-test-key" },
+          { id: "2", payload: "record two", key: "batch-test-key" },
+        ],
+      }, "192.0.2.2"),
+    );
+
+    const decrypted = await resultsOf(
+      await sendBatch("decrypt", {
+        operations: [
+          { id: "1", payload: encrypted[0].data, key: "batch-test-key" },
+          { id: "2", payload: "not a ciphertext", key: "batch-test-key" },
+        ],
+      }, "192.0.2.2"),
+    );
+
+    assertEquals(decrypted[0], {
+      id: "1",
+      success: true,
+      data: "record one",
+    });
+    assertEquals(decrypted[1].success, false);
+    assert(decrypted[1].code);
+  });
+
+  await t.step("should refuse recipients per operation", async () => {
+    const results = await resultsOf(
+      await sendBatch("encrypt", {
+        operations: [
+          {
+            id: "1",
+            payload: "record",
+            key: "batch-test-key",
+            recipients: ["other-key"],
+          },
+        ],
+      }, "192.0.2.3"),
+    );
+    assertEquals(results[0].code, "INVALID_RECIPIENTS");
+  });
+});
+
+Deno.test("Batch API - Batch validation", async (t) => {
+  const operation = { id: "1", payload: "record", key: "" };
+
+  await t.step("should reject an empty batch", async () => {
+    const response = await sendBatch(
+      "encrypt",
+      { operations: [] },
+      "192.0.2.10",
+    );
+    assertEquals(response.status, 400);
+    assertEquals(await errorCodeOf(response), "INVALID_ITEMS");
+  });
+
+  await t.step("should reject operations that are not a list", async () => {
+    for (const operations of ["record", { id: "1" }, null]) {
+      const response = await sendBatch(
+        "encrypt",
+        { operations },
+        "192.0.2.10",
+      );
+      assertEquals(response.status, 400);
+      assertEquals(await errorCodeOf(response), "INVALID_ITEMS");
+    }
+  });
+
+  await t.step("should reject a missing operations field", async () => {
+    const response = await sendBatch("decrypt", {}, "192.0.2.10");
+    assertEquals(response.status, 400);
+  });
+
+  await t.step("should reject more than MAX_BATCH_ITEMS", async () => {
+    const response = await sendBatch("encrypt", {
+      operations: Array.from(
+        { length: MAX_BATCH_ITEMS + 1 },
+        (_, i) => ({ ...operation, id: String(i) }),
+      ),
+    }, "192.0.2.11");
+    assertEquals(response.status, 400);
+    assertEquals(await errorCodeOf(response), "INVALID_ITEMS");
+
+    const results = await resultsOf(
+      await sendBatch("encrypt", {
+        operations: Array.from(
+          { length: MAX_BATCH_ITEMS },
+          (_, i) => ({ ...operation, id: String(i) }),
+        ),
+      }, "192.0.2.11"),
+    );
+    assertEquals(results.length, MAX_BATCH_ITEMS);
+  });
+
+  await t.step("should reject a batch without an id", async () => {
+    const response = await sendBatch("encrypt", {
+      operations: [{ payload: "record", key: "batch-test-key" }],
+    }, "192.0.2.12");
+    assertEquals(response.status, 400);
+    assertEquals(await errorCodeOf(response), "INVALID_ITEMS");
+  });
+
+  await t.step("should reject invalid JSON", async () => {
+    const response = await sendBatch("encrypt", "{", "192.0.2.12");
+    assertEquals(response.status, 400);
+    assertEquals(await errorCodeOf(response), "INVALID_JSON");
+  });
+});
+
+Deno.test("Batch API - Rate limiting", async (t) => {
+  // Operations with an empty key fail before any key derivation
+  const operation = { payload: "record", key: "" };
+
+  await t.step("should count a full batch as one request", async () => {
+    const operations = Array.from(
+      { length: MAX_BATCH_ITEMS },
+      (_, i) => ({ ...operation, id: String(i) }),
+    );
+    for (let i = 0; i < 20; i++) {
+      const response = await sendBatch(
+        "encrypt",
+        { operations },
+        "192.0.2.20",
+      );
+      assertEquals(response.status, 200);
+      await response.body?.cancel();
+    }
+
+    const response = await sendBatch(
+      "encrypt",
+      { operations },
+      "192.0.2.20",
+    );
+    assertEquals(response.status, 429);
+    assertEquals(await errorCodeOf(response), "RATE_LIMIT_EXCEEDED");
+  });
+
+  await t.step("should count one more request per full 64KB", async () => {
+    // Just over 15 units of body: the batch counts as 16 requests
+    const body = JSON.stringify({
+      operations: [{ ...operation, id: "1", payload: "x".repeat(15 * 65536) }],
+    });
+    assert(body.length > 15 * 65536 && body.length < 16 * 65536);
+    const response = await sendBatch("encrypt", body, "192.0.2.21");
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+
+    // Four of the hour's 20 requests are left
+    for (let i = 0; i < 4; i++) {
+      const response = await sendBatch(
+        "encrypt",
+        { operations: [{ ...operation, id: "1" }] },
+        "192.0.2.21",
+      );
+      assertEquals(response.status, 200);
+      await response.body?.cancel();
+    }
+    const limited = await sendBatch(
+      "encrypt",
+      { operations: [{ ...operation, id: "1" }] },
+      "192.0.2.21",
+    );
+    assertEquals(limited.status, 429);
+    await limited.body?.cancel();
+  });
+
+  await t.step("should refuse a batch heavier than what is left", async () => {
+    const small = await sendBatch(
+      "encrypt",
+      { operations: [{ ...operation, id: "1" }] },
+      "192.0.2.22",
+    );
+    assertEquals(small.status, 200);
+    await small.body?.cancel();
+
+    // After 1 + 16 requests, another 16 would pass the limit of 20
+    const body = JSON.stringify({
+      operations: [{ ...operation, id: "1", payload: "x".repeat(15 * 65536) }],
+    });
+    const response = await sendBatch("encrypt", body, "192.0.2.22");
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+    const heavy = await sendBatch("encrypt", body, "192.0.2.22");
+    assertEquals(heavy.status, 429);
+    await heavy.body?.cancel();
+  });
+});